@@ -406,6 +406,25 @@ async function subDeviceLogin({
   };
 }
 
+/**
+ * The token endpoint answered but did not issue a new token.
+ * `rejected` is true when it refused the credentials (4xx or a non-zero body status);
+ * a 5xx is a server-side failure that may succeed on a later attempt.
+ */
+class TokenRefreshError extends Error {
+  httpStatus: number;
+  body: any;
+  rejected: boolean;
+
+  constructor(httpStatus: number, body: any) {
+    super(`Token refresh failed: ${JSON.stringify(body)}`);
+    this.name = 'TokenRefreshError';
+    this.httpStatus = httpStatus;
+    this.body = body;
+    this.rejected = httpStatus < 500;
+  }
+}
+
 /**
  * Refresh an OAuth2 token.
  *
@@ -459,7 +478,7 @@ async function refreshOAuthToken({
   }
 
   const body = res?.body ?? res;
-  throw new Error(`Token refresh failed: ${JSON.stringify(body)}`);
+  throw new TokenRefreshError(Number(res?.status) || 0, body);
 }
 
 /**
@@ -889,6 +908,7 @@ export {
   subDeviceLogin,
   subDeviceAllowList,
   refreshOAuthToken,
+  TokenRefreshError,
   qrGenerate,
   qrInfo,
   qrPollLogin,
@@ -0,0 +1,153 @@
+import {
+  RoomMetaType,
+  type RoomMetaTypeValue,
+  type CreateChatOptions,
+  type LeaveChatOptions,
+} from '../types';
+import {
+  normalizeIdValue,
+  resolveRoomFlags,
+  extractFeedPayload,
+  extractFeedMemberIds,
+  buildFeedMemberNameMap,
+} from '../utils';
+import { Room } from '../models/room';
+import type { KakaoForgeClient } from './client';
+
+/**
+ * Chat room mixin interface - declares methods added to KakaoForgeClient
+ */
+export interface ChatRoomMixin {
+  createChat(userIds: Array<number | string>, opts?: CreateChatOptions): Promise<Room>;
+  inviteMembers(chatId: number | string, userIds: Array<number | string>): Promise<any>;
+  leaveChat(chatId: number | string, opts?: LeaveChatOptions): Promise<any>;
+  setRoomMeta(chatId: number | string, type: RoomMetaTypeValue, content: string): Promise<any>;
+  setRoomTitle(chatId: number | string, title: string): Promise<any>;
+  setRoomNotice(chatId: number | string, notice: string): Promise<any>;
+}
+
+function normalizeUserIds(userIds: Array<number | string>, label: string) {
+  const ids = (Array.isArray(userIds) ? userIds : [userIds])
+    .map((id) => normalizeIdValue(id))
+    .filter((id) => id && id !== '0');
+  if (ids.length === 0) {
+    throw new Error(`${label} requires at least one userId`);
+  }
+  return ids;
+}
+
+/**
+ * Create a group chat, or a 1:1 chat when `userIds` has a single user (CREATE).
+ */
+async function createChat(
+  this: KakaoForgeClient,
+  userIds: Array<number | string>,
+  opts: CreateChatOptions = {}
+) {
+  const carriage = this._requireCarriage();
+  const memberIds = normalizeUserIds(userIds, 'createChat');
+  const res = await carriage.create(memberIds);
+  const body = res?.body || {};
+  const chatIdValue = normalizeIdValue(body.chatId || body.chatRoom?.chatId || body.chatRoom?.c || 0);
+  if (!chatIdValue) {
+    throw new Error('CREATE response has no chatId');
+  }
+
+  const direct = memberIds.length === 1;
+  this._updateChatRooms([{
+    type: direct ? 'DirectChat' : 'MultiChat',
+    directChat: direct,
+    ...(body.chatRoom || {}),
+    chatId: chatIdValue,
+  }]);
+  // displayMembers is only a preview of the others, so anything short of a full list means MEMLIST
+  const members = body.chatRoom?.members;
+  if (Array.isArray(members) && members.length > memberIds.length) {
+    this._cacheMembers(chatIdValue, members);
+  } else {
+    await this._fetchMemberList(chatIdValue, { force: true });
+  }
+
+  if (opts.title && !direct) {
+    await this.setRoomTitle(chatIdValue, opts.title);
+  }
+  return new Room(this, chatIdValue);
+}
+
+/**
+ * Invite members into a group chat (ADDMEM).
+ */
+async function inviteMembers(this: KakaoForgeClient, chatId: number | string, userIds: Array<number | string>) {
+  const carriage = this._requireCarriage();
+  const memberIds = normalizeUserIds(userIds, 'inviteMembers');
+  const resolvedChatId = this._resolveChatId(chatId);
+  const roomInfo = this._chatRooms.get(String(resolvedChatId)) || {};
+  if (resolveRoomFlags(roomInfo).isOpenChat) {
+    throw new Error('inviteMembers does not work in open chats');
+  }
+
+  const res = await carriage.addMem(resolvedChatId, memberIds);
+  const feed = res?.body?.chatLog ? extractFeedPayload(res.body.chatLog, []) : null;
+  const invitedIds = feed ? extractFeedMemberIds(feed) : [];
+  const nameMap = feed ? buildFeedMemberNameMap(feed) : new Map<string, string>();
+  this._applyMembershipChange('invite', resolvedChatId, invitedIds.length > 0 ? invitedIds : memberIds, nameMap);
+  if (memberIds.some((id) => !this._getCachedMemberName(resolvedChatId, id))) {
+    await this._fetchMemberList(resolvedChatId, { force: true });
+  }
+  return res;
+}
+
+/**
+ * Leave a chat room (LEAVE) and drop it from the room and member caches.
+ */
+async function leaveChat(this: KakaoForgeClient, chatId: number | string, opts: LeaveChatOptions = {}) {
+  const carriage = this._requireCarriage();
+  const resolvedChatId = this._resolveChatId(chatId);
+  const res = await carriage.leave(resolvedChatId, !!opts.block);
+  this._forgetRoom(resolvedChatId);
+  return res;
+}
+
+/**
+ * Write a chat room meta entry (SETMETA). See RoomMetaType.
+ */
+async function setRoomMeta(
+  this: KakaoForgeClient,
+  chatId: number | string,
+  type: RoomMetaTypeValue,
+  content: string
+) {
+  const carriage = this._requireCarriage();
+  const resolvedChatId = this._resolveChatId(chatId);
+  const text = String(content ?? '');
+  const res = await carriage.setMeta(resolvedChatId, type, text);
+
+  const key = String(resolvedChatId);
+  const prev = this._chatRooms.get(key) || {};
+  if (type === RoomMetaType.Title) {
+    this._chatRooms.set(key, { ...prev, title: text, roomName: text || prev.roomName, needsTitle: !text });
+  } else if (type === RoomMetaType.Notice) {
+    this._chatRooms.set(key, { ...prev, notice: text });
+  }
+  return res;
+}
+
+function setRoomTitle(this: KakaoForgeClient, chatId: number | string, title: string) {
+  return this.setRoomMeta(chatId, RoomMetaType.Title, title);
+}
+
+function setRoomNotice(this: KakaoForgeClient, chatId: number | string, notice: string) {
+  return this.setRoomMeta(chatId, RoomMetaType.Notice, notice);
+}
+
+/**
+ * Apply chat room mixin to KakaoForgeClient prototype
+ */
+export function applyChatRoomMixin(ClientClass: typeof KakaoForgeClient) {
+  ClientClass.prototype.createChat = createChat;
+  ClientClass.prototype.inviteMembers = inviteMembers;
+  ClientClass.prototype.leaveChat = leaveChat;
+  ClientClass.prototype.setRoomMeta = setRoomMeta;
+  ClientClass.prototype.setRoomTitle = setRoomTitle;
+  ClientClass.prototype.setRoomNotice = setRoomNotice;
+}
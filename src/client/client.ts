@@ -1,14 +1,37 @@
 ﻿import { EventEmitter } from 'events';
 import * as LosslessJSON from 'lossless-json';
 import { Long } from 'bson';
-import { BookingClient } from '../net/booking-client';
+import { BookingClient, BOOKING_HOST, BOOKING_PORT } from '../net/booking-client';
 import { CarriageClient } from '../net/carriage-client';
+import { type V2SLCipher, type V2SLCryptoOptions } from '../crypto/v2sl';
+import { PacketRecorder, readPacketCapture, type PacketCaptureEntry } from '../net/packet-capture';
+import { ReplayCarriageClient } from '../net/replay-client';
+import { LocoStatusError, isTokenExpiredStatus } from '../protocol/loco-status';
 import { TicketClient } from '../net/ticket-client';
+import { CommandRouter } from './command-router';
+import { MessageCollector, type MessageWaiter } from './message-collector';
+import { EventStream, type EventSubscription } from './event-stream';
+import {
+  MemoryStateStore,
+  JsonFileStateStore,
+  CLIENT_STATE_VERSION,
+  toPlainState,
+  type StateStore,
+  type ClientStateSnapshot,
+} from '../state/state-store';
+import { MemoryOutboxStore, JsonFileOutboxStore, type OutboxStore } from '../state/outbox-store';
+import { MemoryScheduleStore, JsonFileScheduleStore } from '../state/schedule-store';
+import { Outbox } from './outbox';
+import { MessageScheduler } from './message-scheduler';
+import { SendScheduler, DEFAULT_SEND_RATE_LIMIT, DEFAULT_UPLOAD_RATE_LIMIT } from './send-scheduler';
+import { RoomDirectory } from './room-directory';
+import { Message } from '../models/message';
 import { CalendarClient } from '../net/calendar-client';
 import { BubbleClient } from '../net/bubble-client';
 import {
   subDeviceLogin,
   refreshOAuthToken,
+  TokenRefreshError,
   qrLogin,
   generateDeviceUuid,
   buildDeviceId,
@@ -18,6 +41,9 @@ import { nextClientMsgId } from '../util/client-msg-id';
 
 import {
   sleepMs,
+  loadAuthFile,
+  saveAuthFile,
+  formatKstTimestamp,
   uniqueStrings,
   uniqueNumbers,
   toLong,
@@ -46,11 +72,17 @@ import {
   resolveMemberActionFromPush,
   resolveDeleteActionFromPush,
   resolveHideActionFromPush,
+  resolveEditActionFromPush,
+  resolveReactionActionFromPush,
   normalizeMemberAction,
   buildQrLoginHandlers,
+  parseMessageContent,
+  resolveMessageMentions,
+  resolveMessageSpoilers,
 } from '../utils';
 
 import {
+  Reactions,
   type MemberTypeValue,
   type TransportMode,
   type MessageEvent,
@@ -58,18 +90,42 @@ import {
   type MemberEvent,
   type DeleteEvent,
   type HideEvent,
+  type EditEvent,
+  type ReactionEvent,
+  type ReadEvent,
   type VideoQuality,
   type KakaoForgeConfig,
   type ChatModule,
+  type OpenChatModule,
   type ChatRoomInfo,
   type ChatListCursor,
   type MessageHandler,
   type MemberEventHandler,
   type DeleteEventHandler,
   type HideEventHandler,
+  type EditEventHandler,
+  type ReactionEventHandler,
+  type ReadEventHandler,
+  type EventHandler,
+  type EventType,
+  type EventContext,
+  type EventMiddleware,
+  type CommandDefinition,
+  type MessageFilter,
+  type AwaitMessageOptions,
+  type MessageCollectorOptions,
+  type EventStreamOptions,
+  type SendKind,
+  type ScheduleOptions,
+  type SendPriority,
+  type SendRateLimit,
   type MemberNameCache,
+  type ReactionTypeValue,
 } from '../types';
 
+// autoMarkRead waits this long after a room's handlers settle, so a burst of messages costs one NOTIREAD
+const AUTO_READ_DEBOUNCE_MS = 300;
+
 export class KakaoForgeClient extends EventEmitter {
   userId: number;
   oauthToken: string;
@@ -86,11 +142,20 @@ export class KakaoForgeClient extends EventEmitter {
   deviceId: string;
   useSub: boolean;
   refreshToken: string;
+  authPath: string;
   debug: boolean;
   type: MemberTypeValue;
   chat: ChatModule;
+  openChat: OpenChatModule;
+  commands: CommandRouter;
+  rooms: RoomDirectory;
+  stateStore: StateStore;
+  stateCheckpointIntervalMs: number;
+  outbox: Outbox | null;
+  schedules: MessageScheduler;
   autoReconnect: boolean;
   sendIntervalMs: number;
+  sendScheduler: SendScheduler;
   reconnectMinDelayMs: number;
   reconnectMaxDelayMs: number;
   memberCacheTtlMs: number;
@@ -98,24 +163,35 @@ export class KakaoForgeClient extends EventEmitter {
   memberLookupTimeoutMs: number;
   pingIntervalMs: number;
   socketKeepAliveMs: number;
+  gapFill: boolean;
+  gapFillMaxRooms: number;
+  gapFillMaxPages: number;
+  messageDedupeSize: number;
+  messageDedupeTtlMs: number;
+  duplicateMessageCount: number;
+  richMessages: boolean;
+  autoMarkRead: boolean;
   feedTypeMap: Record<number, MemberAction>;
   videoQuality: VideoQuality;
   transcodeVideos: boolean;
   ffmpegPath: string;
   ffprobePath: string;
   debugGetConf: boolean;
+  bookingHost: string;
+  bookingPort: number;
+  bookingCa: string | Buffer | null;
+  v2slPublicKey: string | Buffer | null;
+  v2slCipher: V2SLCipher | null;
+  _recorder: PacketRecorder | null;
   _conf: any;
   _booking: BookingClient | null;
   _carriage: CarriageClient | null;
   _calendar: CalendarClient | null;
   _bubble: BubbleClient | null;
-  _messageHandler: MessageHandler | null;
-  _joinHandler: MemberEventHandler | null;
-  _leaveHandler: MemberEventHandler | null;
-  _inviteHandler: MemberEventHandler | null;
-  _kickHandler: MemberEventHandler | null;
-  _deleteHandler: DeleteEventHandler | null;
-  _hideHandler: HideEventHandler | null;
+  _eventHandlers: Map<EventType, Set<EventHandler>>;
+  _middlewares: EventMiddleware[];
+  _messageWaiters: Set<MessageWaiter>;
+  _eventStreams: Set<EventSubscription>;
   _pushHandlers: Map<string, (payload: any) => void>;
   _locoAutoConnectAttempted: boolean;
   _chatRooms: Map<string, ChatRoomInfo>;
@@ -131,19 +207,26 @@ export class KakaoForgeClient extends EventEmitter {
   _chatListCursor: ChatListCursor;
   _memberNames: MemberNameCache;
   _memberTypes: Map<string, Map<string, number>>;
+  _memberProfileImages: Map<string, Map<string, string>>;
   _memberFetchInFlight: Map<string, Promise<void>>;
   _memberListFetchInFlight: Map<string, Promise<void>>;
   _memberCacheUpdatedAt: Map<string, number>;
   _messageSenderCache: Map<string, Map<string, MessageEvent['sender']>>;
+  _messageTextCache: Map<string, Map<string, string>>;
+  _readWatermarks: Map<string, Map<string, number | string>>;
   _memberRefreshTimer: NodeJS.Timeout | null;
+  _stateLoaded: boolean;
+  _stateCheckpointTimer: NodeJS.Timeout | null;
+  _stateSaveChain: Promise<void>;
   _messageChains: Map<string, Promise<void>>;
+  _seenMessages: Map<string, number>;
+  _autoReadPending: Map<string, { handlers: number; logId: number | string; timer: NodeJS.Timeout | null }>;
   _activeChatId: number | string | null;
   _connectPromise: Promise<any> | null;
+  _authRefreshPromise: Promise<void> | null;
   _reconnectTimer: NodeJS.Timeout | null;
   _reconnectAttempt: number;
   _disconnectRequested: boolean;
-  _sendQueue: Promise<void>;
-  _lastSendAt: number;
 
   constructor(config: KakaoForgeConfig = {}) {
     super();
@@ -174,6 +257,7 @@ export class KakaoForgeClient extends EventEmitter {
 
     // Refresh token for token renewal
     this.refreshToken = config.refreshToken || '';
+    this.authPath = config.authPath || '';
 
     // Debug mode: log all raw events
     this.debug = config.debug || false;
@@ -184,6 +268,31 @@ export class KakaoForgeClient extends EventEmitter {
     if (typeof config.sendIntervalMs === 'number') {
       this.sendIntervalMs = config.sendIntervalMs;
     }
+    // An explicit sendIntervalMs keeps its old meaning: one global WRITE per interval, 0 = no limit at all
+    let legacyGlobal: Partial<SendRateLimit> = {};
+    if (typeof config.sendIntervalMs === 'number') {
+      legacyGlobal = this.sendIntervalMs > 0
+        ? { globalPerSecond: 1000 / this.sendIntervalMs, globalBurst: 1 }
+        : { roomPerSecond: 0, globalPerSecond: 0 };
+    }
+    this.sendScheduler = new SendScheduler({
+      write: {
+        ...DEFAULT_SEND_RATE_LIMIT,
+        ...legacyGlobal,
+        ...(config.sendRateLimit || {}),
+      },
+      upload: {
+        ...DEFAULT_UPLOAD_RATE_LIMIT,
+        ...(config.uploadRateLimit || {}),
+      },
+      throttleBackoffMs: typeof config.sendThrottleBackoffMs === 'number'
+        ? config.sendThrottleBackoffMs
+        : 2000,
+      throttleRecoverMs: typeof config.sendThrottleRecoverMs === 'number'
+        ? config.sendThrottleRecoverMs
+        : 30000,
+      onThrottle: (event) => this.emit('sendThrottled', event),
+    });
     this.reconnectMinDelayMs = typeof config.reconnectMinDelayMs === 'number'
       ? config.reconnectMinDelayMs
       : 1000;
@@ -205,6 +314,49 @@ export class KakaoForgeClient extends EventEmitter {
     this.socketKeepAliveMs = typeof config.socketKeepAliveMs === 'number'
       ? config.socketKeepAliveMs
       : 30000;
+    this.gapFill = config.gapFill !== false;
+    this.gapFillMaxRooms = typeof config.gapFillMaxRooms === 'number'
+      ? config.gapFillMaxRooms
+      : 20;
+    this.gapFillMaxPages = typeof config.gapFillMaxPages === 'number'
+      ? config.gapFillMaxPages
+      : 5;
+    this.messageDedupeSize = typeof config.messageDedupeSize === 'number'
+      ? config.messageDedupeSize
+      : 5000;
+    this.messageDedupeTtlMs = typeof config.messageDedupeTtlMs === 'number'
+      ? config.messageDedupeTtlMs
+      : 10 * 60 * 1000;
+    this.duplicateMessageCount = 0;
+    this.richMessages = !!config.richMessages;
+    this.autoMarkRead = !!config.autoMarkRead;
+    this.stateStore = config.stateStore
+      || (config.statePath ? new JsonFileStateStore(config.statePath) : new MemoryStateStore());
+    this.stateCheckpointIntervalMs = typeof config.stateCheckpointIntervalMs === 'number'
+      ? config.stateCheckpointIntervalMs
+      : 30000;
+    const outboxStore: OutboxStore | null = config.outbox && typeof config.outbox === 'object'
+      ? config.outbox
+      : (config.outboxPath
+        ? new JsonFileOutboxStore(config.outboxPath)
+        : (config.outbox ? new MemoryOutboxStore() : null));
+    this.outbox = outboxStore
+      ? new Outbox(this, outboxStore, {
+        maxAttempts: config.outboxMaxAttempts,
+        retryBaseMs: config.outboxRetryBaseMs,
+        retryMaxMs: config.outboxRetryMaxMs,
+      })
+      : null;
+    this.schedules = new MessageScheduler(
+      this,
+      config.scheduleStore
+        || (config.schedulePath ? new JsonFileScheduleStore(config.schedulePath) : new MemoryScheduleStore()),
+      {
+        catchUp: config.scheduleCatchUp,
+        missedGraceMs: config.scheduleMissedGraceMs,
+        maxCatchUp: config.scheduleMaxCatchUp,
+      }
+    );
     this.feedTypeMap = {
       ...DEFAULT_FEED_TYPE_MAP,
       ...(config.feedTypeMap || {}),
@@ -215,6 +367,17 @@ export class KakaoForgeClient extends EventEmitter {
     this.ffmpegPath = config.ffmpegPath || '';
     this.ffprobePath = config.ffprobePath || '';
     this.debugGetConf = config.debugGetConf === true;
+    this.bookingHost = config.bookingHost || BOOKING_HOST;
+    this.bookingPort = typeof config.bookingPort === 'number' ? config.bookingPort : BOOKING_PORT;
+    this.bookingCa = config.bookingCa || null;
+    this.v2slPublicKey = config.v2slPublicKey || null;
+    this.v2slCipher = config.v2slCipher || null;
+    this._recorder = config.captureFile
+      ? new PacketRecorder(config.captureFile, {
+        format: config.captureFormat,
+        redactKeys: config.captureRedactKeys,
+      })
+      : null;
     this._conf = null;
 
     // LOCO clients
@@ -223,13 +386,15 @@ export class KakaoForgeClient extends EventEmitter {
     this._calendar = null;
     this._bubble = null;
 
-    this._messageHandler = null;
-    this._joinHandler = null;
-    this._leaveHandler = null;
-    this._inviteHandler = null;
-    this._kickHandler = null;
-    this._deleteHandler = null;
-    this._hideHandler = null;
+    this._eventHandlers = new Map();
+    this._middlewares = [];
+    this._messageWaiters = new Set();
+    this._eventStreams = new Set();
+    this.commands = new CommandRouter(this, {
+      prefixes: config.commandPrefixes,
+      help: config.commandHelp !== false,
+    });
+    this.rooms = new RoomDirectory(this);
     this._pushHandlers = new Map();
     this._locoAutoConnectAttempted = false;
     this._chatRooms = new Map();
@@ -245,31 +410,40 @@ export class KakaoForgeClient extends EventEmitter {
     this._chatListCursor = { lastTokenId: 0, lastChatId: 0 };
     this._memberNames = new Map();
     this._memberTypes = new Map();
+    this._memberProfileImages = new Map();
     this._memberFetchInFlight = new Map();
     this._memberListFetchInFlight = new Map();
     this._memberCacheUpdatedAt = new Map();
     this._messageSenderCache = new Map();
+    this._messageTextCache = new Map();
+    this._readWatermarks = new Map();
     this._memberRefreshTimer = null;
+    this._stateLoaded = false;
+    this._stateCheckpointTimer = null;
+    this._stateSaveChain = Promise.resolve();
     this._messageChains = new Map();
+    this._seenMessages = new Map();
+    this._autoReadPending = new Map();
     this._activeChatId = null;
     this._connectPromise = null;
+    this._authRefreshPromise = null;
     this._reconnectTimer = null;
     this._reconnectAttempt = 0;
     this._disconnectRequested = false;
-    this._sendQueue = Promise.resolve();
-    this._lastSendAt = 0;
 
     this.chat = {
       sendText: (chatId, text, opts) => this.sendMessage(chatId, text, 1, opts),
       sendReply: (chatId, text, replyTo, opts) => this.sendReply(chatId, text, replyTo, opts),
       sendThreadReply: (chatId, threadId, text, opts) => this.sendThreadReply(chatId, threadId, text, opts),
       sendReaction: (chatId, target, reactionType, opts) => this.sendReaction(chatId, target, reactionType, opts),
+      getReactions: (chatId, target, opts) => this.getReactions(chatId, target, opts),
       openChatKick: (chatId, target, opts) => this.openChatKick(chatId, target, opts),
       openChatBlind: (chatId, target, opts) => this.openChatBlind(chatId, target, opts),
       fetchMessage: (chatId, logId) => this.fetchMessage(chatId, logId),
       fetchMessagesByUser: (chatId, userId, opts) => this.fetchMessagesByUser(chatId, userId, opts),
       getUsernameById: (chatId, userId) => this.getUsernameById(chatId, userId),
       deleteMessage: (chatId, target) => this.deleteMessage(chatId, target),
+      markRead: (chatId, logId) => this.markRead(chatId, logId),
       editMessage: (chatId, target, text, opts) => this.editMessage(chatId, target, text, opts),
       send: (chatId, text, opts) => this.sendMessage(chatId, text, opts),
       mention: (userId, nameOrChatId, chatId) => this._mention(userId, nameOrChatId, chatId),
@@ -292,6 +466,42 @@ export class KakaoForgeClient extends EventEmitter {
       sendSchedule: (chatId, schedule, opts) => this.sendSchedule(chatId, schedule, opts),
       sendLink: (chatId, link, opts) => this.sendLink(chatId, link, opts),
     };
+
+    this.openChat = {
+      resolveLink: (url, opts) => this.resolveOpenLink(url, opts),
+      join: (target, opts) => this.joinOpenChat(target, opts),
+      leave: (chatId) => this.leaveOpenChat(chatId),
+    };
+  }
+
+  _createBookingClient() {
+    const booking = new BookingClient();
+    if (this._recorder) booking.setRecorder(this._recorder);
+    return booking;
+  }
+
+  async _connectBooking(booking: BookingClient) {
+    const tlsOpts = this.bookingCa ? { ca: this.bookingCa } : {};
+    await booking.connect(this.bookingHost, this.bookingPort, tlsOpts);
+  }
+
+  _v2slOptions() {
+    const opts: V2SLCryptoOptions = {};
+    if (this.v2slPublicKey) opts.publicKey = this.v2slPublicKey;
+    if (this.v2slCipher) opts.cipher = this.v2slCipher;
+    return opts;
+  }
+
+  _createCarriageClient() {
+    const carriage = new CarriageClient(this._v2slOptions());
+    if (this._recorder) carriage.setRecorder(this._recorder);
+    if (this.debug) {
+      carriage.validateResponses = true;
+      carriage.on('schemaDrift', ({ method, issues }) => {
+        console.warn(`[!] LOCO schema drift in ${method}: ${issues.join('; ')}`);
+      });
+    }
+    return carriage;
   }
 
   _nextClientMsgId() {
@@ -446,6 +656,7 @@ export class KakaoForgeClient extends EventEmitter {
           }
           this._cacheMembers(resolvedChatId, members);
         }
+        this._setReadWatermarks(resolvedChatId, body.a || [], body.w || []);
 
         if (senderId && !this._getCachedMemberName(resolvedChatId, senderId)) {
           try {
@@ -663,12 +874,112 @@ export class KakaoForgeClient extends EventEmitter {
         await this.connect();
         this._reconnectAttempt = 0;
       } catch (err) {
+        // connect() already scheduled the next attempt unless the error is final
         console.error('[!] Reconnect failed:', err.message);
-        this._scheduleReconnect(err);
       }
     }, delay);
   }
 
+  /**
+   * Restore rooms, cursors and member caches from the state store (once per client).
+   */
+  async loadState() {
+    if (this._stateLoaded) return false;
+    this._stateLoaded = true;
+
+    let snapshot: ClientStateSnapshot | null = null;
+    try {
+      snapshot = await this.stateStore.load();
+    } catch (err) {
+      console.warn(`[!] State load failed: ${err.message}`);
+      return false;
+    }
+    if (!snapshot) return false;
+    if (snapshot.version !== CLIENT_STATE_VERSION) {
+      console.warn(`[!] Ignoring state snapshot version ${snapshot.version}`);
+      return false;
+    }
+    if (snapshot.userId && this.userId && String(snapshot.userId) !== String(this.userId)) {
+      console.warn(`[!] Ignoring state snapshot of another user (${snapshot.userId})`);
+      return false;
+    }
+
+    for (const [key, room] of Object.entries(snapshot.chatRooms || {})) {
+      this._recordChatAlias(key);
+      this._chatRooms.set(key, { ...room, ...(this._chatRooms.get(key) || {}) });
+    }
+    for (const [chatId, names] of Object.entries(snapshot.memberNames || {})) {
+      this._memberNames.set(chatId, new Map(Object.entries(names)));
+    }
+    for (const [chatId, types] of Object.entries(snapshot.memberTypes || {})) {
+      this._memberTypes.set(chatId, new Map(Object.entries(types)));
+    }
+    for (const [chatId, images] of Object.entries(snapshot.memberProfileImages || {})) {
+      this._memberProfileImages.set(chatId, new Map(Object.entries(images)));
+    }
+    for (const [chatId, updatedAt] of Object.entries(snapshot.memberCacheUpdatedAt || {})) {
+      this._memberCacheUpdatedAt.set(chatId, updatedAt);
+    }
+    for (const [linkId, info] of Object.entries(snapshot.openLinkInfo || {})) {
+      this._openLinkInfoCache.set(linkId, info);
+    }
+    if (snapshot.chatListCursor) {
+      this._chatListCursor = { ...snapshot.chatListCursor };
+    }
+    this._openLinkSyncToken = safeNumber(snapshot.openLinkSyncToken, this._openLinkSyncToken);
+
+    console.log(`[+] Restored state: ${this._chatRooms.size} rooms (saved ${formatKstTimestamp(new Date(snapshot.savedAt))})`);
+    return true;
+  }
+
+  _snapshotState(): ClientStateSnapshot {
+    const mapToRecord = <V>(map: Map<string, V>) => Object.fromEntries(map.entries());
+    return toPlainState({
+      version: CLIENT_STATE_VERSION,
+      userId: this.userId,
+      savedAt: Date.now(),
+      chatRooms: mapToRecord(this._chatRooms),
+      memberNames: Object.fromEntries([...this._memberNames].map(([chatId, names]) => [chatId, mapToRecord(names)])),
+      memberTypes: Object.fromEntries([...this._memberTypes].map(([chatId, types]) => [chatId, mapToRecord(types)])),
+      memberProfileImages: Object.fromEntries(
+        [...this._memberProfileImages].map(([chatId, images]) => [chatId, mapToRecord(images)])
+      ),
+      memberCacheUpdatedAt: mapToRecord(this._memberCacheUpdatedAt),
+      openLinkInfo: mapToRecord(this._openLinkInfoCache),
+      chatListCursor: this._chatListCursor,
+      openLinkSyncToken: this._openLinkSyncToken,
+    });
+  }
+
+  /**
+   * Write a checkpoint to the state store. Saves run one at a time.
+   */
+  saveState() {
+    const task = this._stateSaveChain
+      .catch(() => {})
+      .then(() => this.stateStore.save(this._snapshotState()));
+    this._stateSaveChain = task.catch((err) => {
+      console.warn(`[!] State checkpoint failed: ${err.message}`);
+    });
+    return task;
+  }
+
+  _startStateCheckpoint() {
+    this._stopStateCheckpoint();
+    if (!this.stateCheckpointIntervalMs || this.stateCheckpointIntervalMs <= 0) return;
+
+    this._stateCheckpointTimer = setInterval(() => {
+      this.saveState().catch(() => {});
+    }, this.stateCheckpointIntervalMs);
+  }
+
+  _stopStateCheckpoint() {
+    if (this._stateCheckpointTimer) {
+      clearInterval(this._stateCheckpointTimer);
+      this._stateCheckpointTimer = null;
+    }
+  }
+
   _startMemberRefresh() {
     this._stopMemberRefresh();
     if (!this.memberRefreshIntervalMs || this.memberRefreshIntervalMs <= 0) return;
@@ -721,7 +1032,12 @@ export class KakaoForgeClient extends EventEmitter {
       throw new Error('No deviceUuid. Use auth.json or call login() first.');
     }
 
+    await this.loadState();
+    if (this.outbox) await this.outbox.load();
+    await this.schedules.load();
+
     if (this._carriage) {
+      this._carriage.removeAllListeners('disconnected');
       await this._carriage.end().catch(() => {});
       this._carriage = null;
     }
@@ -732,8 +1048,8 @@ export class KakaoForgeClient extends EventEmitter {
 
     // Step 1: Booking - GETCONF
     console.log('[*] Connecting to Booking server...');
-    this._booking = new BookingClient();
-    await this._booking.connect();
+    this._booking = this._createBookingClient();
+    await this._connectBooking(this._booking);
     console.log('[+] Connected to Booking server');
 
     let checkinResult = null;
@@ -810,17 +1126,100 @@ export class KakaoForgeClient extends EventEmitter {
     }
 
     // Step 2: Carriage - V2SL handshake + LOGINLIST
+    let loginRes = await this._loginCarriage(checkinResult);
+    if (isTokenExpiredStatus(loginRes.status) && this.refreshToken) {
+      console.warn('[!] LOGINLIST rejected the access token, refreshing...');
+      try {
+        await this.refreshAuth();
+      } catch (err) {
+        console.error('[!] Token refresh failed:', err.message);
+        this._dropCarriage();
+        // Network and server errors go through the reconnect backoff like any other connect failure
+        if (!(err instanceof TokenRefreshError && err.rejected)) throw err;
+        // A rejected refresh token stays rejected: report the expired login instead of reconnecting
+        throw new LocoStatusError('LOGINLIST', loginRes.status, { packetId: loginRes.packetId, body: loginRes.body });
+      }
+      loginRes = await this._loginCarriage(checkinResult);
+    }
+
+    console.log(`[+] LOGINLIST response: status=${loginRes.status}`);
+    if (loginRes.status !== 0) {
+      console.error('[!] LOGINLIST failed with status:', loginRes.status);
+      console.error('[!] Body:', JSON.stringify(loginRes.body, null, 2));
+      this._dropCarriage();
+      throw new LocoStatusError('LOGINLIST', loginRes.status, { packetId: loginRes.packetId, body: loginRes.body });
+    }
+
+    const changedChats = this._applyChatList(loginRes.body);
+    // Snapshot before live MSG pushes move lastLogId past the gap
+    const gaps = this.gapFill ? this._collectMessageGaps(changedChats) : [];
+
+    // Sync open link list for open chat titles
+    await this._syncOpenLinks();
+
+    // Start keepalive
+    this._carriage.startPing(this.pingIntervalMs);
+    console.log('[+] Bot is ready!');
+    this.emit('ready', this.chat);
+    this._startMemberRefresh();
+    this._startStateCheckpoint();
+
+    const gapFill = gaps.length > 0
+      ? this._fillMessageGaps(gaps).catch((err) => {
+        console.warn(`[!] Gap fill failed: ${err.message}`);
+      })
+      : Promise.resolve();
+    if (this.outbox) {
+      // Echoes recovered by the gap fill settle items before anything is re-sent
+      const outbox = this.outbox;
+      void gapFill.then(() => outbox.flush());
+    }
+    void this.schedules.tick();
+
+      return loginRes;
+    })();
+
+    try {
+      const result = await this._connectPromise;
+      this._reconnectAttempt = 0;
+      return result;
+    } catch (err) {
+      // Reconnecting cannot fix an expired token, a blocked account or an outdated appVer
+      if (!(err instanceof LocoStatusError) || err.retryable) {
+        this._scheduleReconnect(err);
+      }
+      throw err;
+    } finally {
+      this._connectPromise = null;
+    }
+  }
+
+  /**
+   * Open a Carriage connection to the CHECKIN result and send LOGINLIST.
+   */
+  async _loginCarriage(checkinResult: { host: string; port: number }) {
+    if (this._carriage) {
+      this._carriage.removeAllListeners('disconnected');
+      await this._carriage.end().catch(() => {});
+      this._carriage = null;
+    }
+
     console.log(`[*] Connecting to Carriage server ${checkinResult.host}:${checkinResult.port}...`);
-    this._carriage = new CarriageClient();
+    this._carriage = this._createCarriageClient();
 
     this._carriage.on('push', (packet) => {
       void this._onPush(packet);
     });
     this._carriage.on('error', (err) => console.error('[!] Carriage error:', err.message));
+    this._carriage.on('authExpired', () => {
+      void this._handleAuthExpired();
+    });
     this._carriage.on('disconnected', () => {
       console.log('[!] Disconnected from Carriage');
       this.emit('disconnected');
       this._stopMemberRefresh();
+      this._stopStateCheckpoint();
+      this.saveState().catch(() => {});
       this._scheduleReconnect();
     });
 
@@ -828,52 +1227,145 @@ export class KakaoForgeClient extends EventEmitter {
     this.emit('connected');
     console.log('[+] Connected to Carriage server (V2SL handshake done)');
 
-    const loginRes = await this._carriage.loginList({
+    const { chatIds, maxIds } = this._chatLogCursors();
+    return await this._carriage.loginList({
       os: this.os,
       appVer: this.appVer,
       lang: this.lang,
       duuid: this.deviceUuid,
       oauthToken: this.oauthToken,
       ntype: this.ntype,
+      chatIds,
+      maxIds,
     });
+  }
 
-    console.log(`[+] LOGINLIST response: status=${loginRes.status}`);
-    if (loginRes.status !== 0) {
-      console.error('[!] LOGINLIST failed with status:', loginRes.status);
-      console.error('[!] Body:', JSON.stringify(loginRes.body, null, 2));
+  /**
+   * Known rooms with the last logId we hold for each (LOGINLIST / LCHATLIST chatIds + maxIds).
+   */
+  _chatLogCursors() {
+    const chatIds: Long[] = [];
+    const maxIds: Long[] = [];
+    for (const [key, room] of this._chatRooms.entries()) {
+      const chatIdValue = normalizeIdValue(key);
+      if (!chatIdValue) continue;
+      chatIds.push(toLong(chatIdValue));
+      maxIds.push(toLong(room.lastLogId || room.lastChatLogId || 0));
     }
+    return { chatIds, maxIds };
+  }
 
-    this._applyChatList(loginRes.body);
+  /**
+   * Rooms from LOGINLIST whose last logId is ahead of the one we tracked.
+   * Rooms we never saw a message in are skipped, so a fresh start doesn't replay history.
+   */
+  _collectMessageGaps(chats: any[]) {
+    const targets: Array<{ chatId: number | string; since: number; max: number }> = [];
+    for (const chat of chats || []) {
+      const chatIdValue = normalizeIdValue(chat?.chatId || chat?.id || chat?.roomId || chat?.chatRoomId || chat?.c || 0);
+      if (!chatIdValue) continue;
+      const room = this._chatRooms.get(String(chatIdValue));
+      const since = safeNumber(room?.lastLogId || 0, 0);
+      const max = safeNumber(room?.lastChatLogId || 0, 0);
+      if (!since || max <= since) continue;
+      targets.push({ chatId: chatIdValue, since, max });
+    }
+    return targets;
+  }
 
-    // Sync open link list for open chat titles
-    await this._syncOpenLinks();
+  /**
+   * Recover messages pushed while the Carriage socket was down, newest activity first,
+   * up to gapFillMaxRooms rooms and gapFillMaxPages SYNCMSG pages per room.
+   */
+  async _fillMessageGaps(targets: Array<{ chatId: number | string; since: number; max: number }>) {
+    targets.sort((a, b) => b.max - a.max);
+    const limit = Math.max(0, this.gapFillMaxRooms);
+    if (targets.length > limit) {
+      console.warn(`[!] Gap fill limited to ${limit} of ${targets.length} rooms`);
+    }
 
-    // Start keepalive
-    this._carriage.startPing(this.pingIntervalMs);
-    console.log('[+] Bot is ready!');
-    this.emit('ready', this.chat);
-    this._startMemberRefresh();
+    let total = 0;
+    for (const target of targets.slice(0, limit)) {
+      if (!this._carriage) return;
+      total += await this._fillRoomGap(target.chatId, target.since, target.max);
+    }
+    if (total > 0) {
+      console.log(`[+] Gap fill recovered ${total} message(s)`);
+    }
+  }
 
-      return loginRes;
-    })();
+  async _fillRoomGap(chatId: number | string, since: number, max: number) {
+    const count = 50;
+    let cur = since;
+    let recovered = 0;
+    for (let page = 0; page < this.gapFillMaxPages; page++) {
+      const body: any = await this.syncMessages(chatId, { since: cur, max, count, backfilled: true });
+      const logs = Array.isArray(body?.chatLogs) ? body.chatLogs : [];
+      let next = cur;
+      for (const log of logs) {
+        const logId = safeNumber(log?.logId || log?.msgId || 0, 0);
+        if (logId > cur) recovered += 1;
+        if (logId > next) next = logId;
+      }
+      if (logs.length < count || next <= cur || next >= max) return recovered;
+      cur = next;
+    }
+    console.warn(`[!] Gap fill for chat ${chatId} stopped after ${this.gapFillMaxPages} page(s)`);
+    return recovered;
+  }
 
-    try {
-      const result = await this._connectPromise;
-      this._reconnectAttempt = 0;
-      return result;
-    } catch (err) {
-      this._scheduleReconnect(err);
-      throw err;
-    } finally {
-      this._connectPromise = null;
+  /**
+   * Close the Carriage connection without triggering a reconnect.
+   */
+  _dropCarriage() {
+    if (!this._carriage) return;
+    this._carriage.removeAllListeners('disconnected');
+    this._carriage.disconnect();
+    this._carriage = null;
+  }
+
+  /**
+   * A request came back with an expired token: refresh once and log in again.
+   */
+  _handleAuthExpired() {
+    if (this._authRefreshPromise) return this._authRefreshPromise;
+    if (!this.refreshToken) {
+      console.error('[!] Access token expired and no refresh token is available');
+      return Promise.resolve();
     }
+
+    this._authRefreshPromise = (async () => {
+      try {
+        console.warn('[!] Access token expired, refreshing...');
+        try {
+          await this.refreshAuth();
+        } catch (err) {
+          // The session is unusable without a new token; only retry when the endpoint could not be reached
+          console.error('[!] Token refresh failed:', err.message);
+          this._dropCarriage();
+          this._stopMemberRefresh();
+          this._stopStateCheckpoint();
+          this.emit('disconnected');
+          if (!(err instanceof TokenRefreshError && err.rejected)) this._scheduleReconnect(err);
+          return;
+        }
+        this._dropCarriage();
+        await this.connect();
+      } catch (err) {
+        console.error('[!] Reconnect after token refresh failed:', err.message);
+      } finally {
+        this._authRefreshPromise = null;
+      }
+    })();
+    return this._authRefreshPromise;
   }
 
   async _checkinViaTicket(hosts, ports, opts) {
     let lastErr = null;
     for (const host of hosts) {
       for (const port of ports) {
-        const ticket = new TicketClient();
+        const ticket = new TicketClient(this._v2slOptions());
+        if (this._recorder) ticket.setRecorder(this._recorder);
         try {
           console.log(`[*] Ticket CHECKIN -> ${host}:${port}`);
           await ticket.connect(host, port);
@@ -921,6 +1413,16 @@ export class KakaoForgeClient extends EventEmitter {
       return;
     }
 
+    const editHandled = await this._emitEditEventFromPush(packet);
+    if (editHandled) {
+      return;
+    }
+
+    const reactionHandled = await this._emitReactionEventFromPush(packet);
+    if (reactionHandled) {
+      return;
+    }
+
     if (packet.method === 'MSG') {
       const { chatId, chatLog } = packet.body || {};
       if (chatLog) {
@@ -936,6 +1438,8 @@ export class KakaoForgeClient extends EventEmitter {
       if (!applied && this.debug) {
         console.log(`[DBG] Push: ${packet.method}`, JSON.stringify(packet.body).substring(0, 200));
       }
+    } else if (packet.method === 'DECUNREAD') {
+      await this._emitReadEventFromPush(packet);
     } else if (packet.method === 'KICKOUT') {
       console.error('[!] KICKOUT received:', JSON.stringify(packet.body));
       this.emit('kickout', packet.body);
@@ -944,32 +1448,325 @@ export class KakaoForgeClient extends EventEmitter {
     }
   }
 
-  onMessage(handler: MessageHandler) {
-    this._messageHandler = handler;
+  /**
+   * Register a handler for an event type. Returns a function that removes it.
+   */
+  _addEventHandler(type: EventType, handler: EventHandler) {
+    let handlers = this._eventHandlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this._eventHandlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      this._eventHandlers.get(type)?.delete(handler);
+    };
+  }
+
+  onMessage(handler: MessageHandler) {
+    return this._addEventHandler('message', handler);
+  }
+
+  onJoin(handler: MemberEventHandler) {
+    return this._addEventHandler('join', handler);
+  }
+
+  onLeave(handler: MemberEventHandler) {
+    return this._addEventHandler('leave', handler);
+  }
+
+  onInvite(handler: MemberEventHandler) {
+    return this._addEventHandler('invite', handler);
+  }
+
+  onKick(handler: MemberEventHandler) {
+    return this._addEventHandler('kick', handler);
+  }
+
+  onDelete(handler: DeleteEventHandler) {
+    return this._addEventHandler('delete', handler);
+  }
+
+  onHide(handler: HideEventHandler) {
+    return this._addEventHandler('hide', handler);
+  }
+
+  onEdit(handler: EditEventHandler) {
+    return this._addEventHandler('edit', handler);
+  }
+
+  onReaction(handler: ReactionEventHandler) {
+    return this._addEventHandler('reaction', handler);
+  }
+
+  onRead(handler: ReadEventHandler) {
+    return this._addEventHandler('read', handler);
+  }
+
+  /**
+   * Remove a handler added with onMessage/onJoin/... as well as a plain EventEmitter listener.
+   */
+  off(eventName: string | symbol, listener: (...args: any[]) => void) {
+    if (typeof eventName === 'string') {
+      this._eventHandlers.get(eventName as EventType)?.delete(listener as EventHandler);
+    }
+    return super.off(eventName, listener);
+  }
+
+  /**
+   * Add middleware that runs before the handlers of message/member/delete/hide events.
+   * Call `await next()` to continue; skip it to stop the event. Returns a function that removes it.
+   */
+  use(middleware: EventMiddleware) {
+    this._middlewares.push(middleware);
+    return () => {
+      const index = this._middlewares.indexOf(middleware);
+      if (index >= 0) this._middlewares.splice(index, 1);
+    };
+  }
+
+  /**
+   * Run the middleware chain, then every handler and the EventEmitter event.
+   * Not awaited by the caller, so a slow handler doesn't hold up the next message of the room.
+   */
+  _dispatchEvent(ctx: EventContext) {
+    const middlewares = [...this._middlewares];
+    let lastIndex = -1;
+    const run = async (index: number): Promise<void> => {
+      if (index <= lastIndex) throw new Error('next() called multiple times');
+      lastIndex = index;
+      if (index < middlewares.length) {
+        await middlewares[index](ctx, () => run(index + 1));
+        return;
+      }
+      for (const subscription of [...this._eventStreams]) {
+        subscription.accept(ctx);
+      }
+      const handlers = [...(this._eventHandlers.get(ctx.type) || [])];
+      await Promise.all(handlers.map((handler) => this._invokeEventHandler(handler, ctx)));
+      this.emit(ctx.type, this.chat, ctx.event);
+    };
+    return run(0).catch((err) => this._emitHandlerError(err, ctx));
+  }
+
+  async _invokeEventHandler(handler: EventHandler, ctx: EventContext) {
+    try {
+      if (handler.length <= 1) {
+        await handler(ctx.event);
+      } else {
+        await handler(this.chat, ctx.event);
+      }
+    } catch (err) {
+      this._emitHandlerError(err, ctx);
+    }
+  }
+
+  _emitHandlerError(err: any, ctx: EventContext) {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err, ctx);
+    } else {
+      console.error(`[!] ${ctx.type} handler error:`, err?.message || err);
+    }
+  }
+
+  /**
+   * Resolve with the next message in the room that passes `filter`.
+   * Rejects on timeout, abort or disconnect().
+   */
+  awaitMessage(
+    chatId: number | string,
+    filter?: MessageFilter,
+    { timeoutMs = 0, signal, consume = false }: AwaitMessageOptions = {}
+  ): Promise<MessageEvent> {
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | null = null;
+      const finish = () => {
+        this._messageWaiters.delete(waiter);
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal?.reason ?? new Error('awaitMessage aborted'));
+      };
+      const waiter: MessageWaiter = {
+        chatKey: String(this._resolveChatId(chatId)),
+        filter: filter || (() => true),
+        consume,
+        deliver: (msg) => {
+          finish();
+          resolve(msg);
+        },
+        close: (err) => {
+          finish();
+          reject(err);
+        },
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      this._messageWaiters.add(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          finish();
+          reject(new Error(`awaitMessage timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Collect messages in the room that pass `filter`, as an async iterator.
+   * Ends after `max` messages, `idle` ms without one, abort, disconnect() or stop().
+   */
+  createMessageCollector(
+    chatId: number | string,
+    filter?: MessageFilter,
+    { max = 0, idle = 0, signal, consume = false }: MessageCollectorOptions = {}
+  ) {
+    const onAbort = () => collector.stop('abort');
+    const collector = new MessageCollector({ max, idle }, () => {
+      this._messageWaiters.delete(waiter);
+      signal?.removeEventListener('abort', onAbort);
+    });
+    const waiter: MessageWaiter = {
+      chatKey: String(this._resolveChatId(chatId)),
+      filter: filter || (() => true),
+      consume,
+      deliver: (msg) => collector.push(msg),
+      close: () => collector.stop('disconnect'),
+    };
+
+    if (signal?.aborted) {
+      collector.stop('abort');
+      return collector;
+    }
+    this._messageWaiters.add(waiter);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return collector;
+  }
+
+  /**
+   * Hand a message to awaitMessage/collector waiters of its room.
+   * Returns true if one of them consumed it.
+   */
+  async _deliverToWaiters(msg: MessageEvent) {
+    if (this._messageWaiters.size === 0) return false;
+    const key = String(msg.room.id);
+    let consumed = false;
+    for (const waiter of [...this._messageWaiters]) {
+      if (waiter.chatKey !== key || !this._messageWaiters.has(waiter)) continue;
+      let matched = false;
+      try {
+        matched = await waiter.filter(msg);
+      } catch (err) {
+        this._emitHandlerError(err, { type: 'message', event: msg, chat: this.chat });
+      }
+      if (!matched || !this._messageWaiters.has(waiter)) continue;
+      waiter.deliver(msg);
+      if (waiter.consume) consumed = true;
+    }
+    return consumed;
+  }
+
+  /**
+   * Messages as an async iterator, optionally limited to one room.
+   */
+  messages(opts: EventStreamOptions = {}) {
+    return this._openEventStream<MessageEvent>(['message'], opts);
   }
 
-  onJoin(handler: MemberEventHandler) {
-    this._joinHandler = handler;
+  /**
+   * Join/leave/invite/kick events as an async iterator.
+   */
+  memberEvents(opts: EventStreamOptions & { types?: MemberAction[] } = {}) {
+    return this._openEventStream<MemberEvent>(opts.types || ['join', 'leave', 'invite', 'kick'], opts);
   }
 
-  onLeave(handler: MemberEventHandler) {
-    this._leaveHandler = handler;
+  deleteEvents(opts: EventStreamOptions = {}) {
+    return this._openEventStream<DeleteEvent>(['delete'], opts);
   }
 
-  onInvite(handler: MemberEventHandler) {
-    this._inviteHandler = handler;
+  hideEvents(opts: EventStreamOptions = {}) {
+    return this._openEventStream<HideEvent>(['hide'], opts);
   }
 
-  onKick(handler: MemberEventHandler) {
-    this._kickHandler = handler;
+  editEvents(opts: EventStreamOptions = {}) {
+    return this._openEventStream<EditEvent>(['edit'], opts);
   }
 
-  onDelete(handler: DeleteEventHandler) {
-    this._deleteHandler = handler;
+  reactionEvents(opts: EventStreamOptions = {}) {
+    return this._openEventStream<ReactionEvent>(['reaction'], opts);
   }
 
-  onHide(handler: HideEventHandler) {
-    this._hideHandler = handler;
+  readEvents(opts: EventStreamOptions = {}) {
+    return this._openEventStream<ReadEvent>(['read'], opts);
+  }
+
+  /**
+   * Any mix of event types as { type, event, chat } contexts.
+   */
+  events(opts: EventStreamOptions & { types?: EventType[] } = {}) {
+    const types = opts.types || ['message', 'join', 'leave', 'invite', 'kick', 'delete', 'hide', 'edit', 'reaction', 'read'];
+    return this._openEventStream<EventContext>(types, opts, (ctx) => ctx);
+  }
+
+  _openEventStream<T>(
+    types: EventType[],
+    { chatId, bufferSize, overflow, signal }: EventStreamOptions,
+    select: (ctx: EventContext) => T = (ctx) => ctx.event as T
+  ) {
+    const typeSet = new Set(types);
+    const chatKey = chatId !== undefined && chatId !== null ? String(this._resolveChatId(chatId)) : null;
+    const onAbort = () => stream.close();
+    const stream = new EventStream<T>({ bufferSize, overflow }, () => {
+      this._eventStreams.delete(subscription);
+      signal?.removeEventListener('abort', onAbort);
+    });
+    const subscription: EventSubscription = {
+      accept: (ctx) => {
+        if (!typeSet.has(ctx.type)) return;
+        if (chatKey && String(ctx.event.room?.id) !== chatKey) return;
+        stream.push(select(ctx));
+      },
+      close: () => stream.close(),
+    };
+
+    if (signal?.aborted) {
+      stream.close();
+      return stream;
+    }
+    this._eventStreams.add(subscription);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return stream;
+  }
+
+  /**
+   * Register a prefix command (see CommandRouter). Returns a function that removes it.
+   */
+  command(def: CommandDefinition) {
+    return this.commands.register(def);
+  }
+
+  /**
+   * Send a message at a time or on a cron schedule (see MessageScheduler). Resolves with the stored schedule.
+   */
+  schedule(opts: ScheduleOptions) {
+    return this.schedules.add(opts);
+  }
+
+  cancelSchedule(id: string) {
+    return this.schedules.cancel(id);
+  }
+
+  /**
+   * Wrap a MessageEvent in a Message with bound actions (reply, react, edit, ...).
+   */
+  toMessage(msg: MessageEvent) {
+    return msg instanceof Message ? msg : new Message(this, msg);
   }
 
   onReady(handler: (chat: ChatModule) => void) {
@@ -988,6 +1785,16 @@ export class KakaoForgeClient extends EventEmitter {
     if (roomIdValue) {
       this._recordChatAlias(roomIdValue);
     }
+    if (this.outbox) {
+      this.outbox.ack(roomIdValue, chatLog);
+    }
+    if (this._isDuplicateMessage(roomIdValue, chatLog)) {
+      this.duplicateMessageCount += 1;
+      if (this.debug) {
+        console.error(`[DBG] duplicate message dropped (total ${this.duplicateMessageCount})`);
+      }
+      return;
+    }
     const key = roomIdValue ? String(roomIdValue) : '_global';
     const prev = this._messageChains.get(key) || Promise.resolve();
     const next = prev
@@ -1006,9 +1813,36 @@ export class KakaoForgeClient extends EventEmitter {
     this._messageChains.set(key, next);
   }
 
+  /**
+   * Remember (chatId, logId) and report whether it was already emitted within the dedupe window.
+   */
+  _isDuplicateMessage(roomIdValue: number | string, chatLog: any) {
+    if (!this.messageDedupeSize || this.messageDedupeSize <= 0) return false;
+    const logIdValue = normalizeIdValue(chatLog?.logId || chatLog?.msgId || 0);
+    if (!roomIdValue || !logIdValue) return false;
+
+    const now = Date.now();
+    const key = `${roomIdValue}:${logIdValue}`;
+    const seenAt = this._seenMessages.get(key);
+    if (seenAt !== undefined && (!this.messageDedupeTtlMs || now - seenAt < this.messageDedupeTtlMs)) {
+      return true;
+    }
+
+    // Re-insert so Map order stays oldest-first, then trim expired and overflow entries
+    this._seenMessages.delete(key);
+    this._seenMessages.set(key, now);
+    for (const [oldKey, oldAt] of this._seenMessages) {
+      const expired = this.messageDedupeTtlMs > 0 && now - oldAt >= this.messageDedupeTtlMs;
+      if (!expired && this._seenMessages.size <= this.messageDedupeSize) break;
+      this._seenMessages.delete(oldKey);
+    }
+    return false;
+  }
+
   async _emitMessageInternal(data: any) {
     const msg = await this._buildMessageEvent(data);
     if (!msg) return;
+    if (data.backfilled) msg.backfilled = true;
 
     this._activeChatId = msg.room.id;
 
@@ -1016,60 +1850,65 @@ export class KakaoForgeClient extends EventEmitter {
     this.type = clientType;
     this.chat.type = clientType;
 
-    if (this._messageHandler) {
-      if (this._messageHandler.length <= 1) {
-        (this._messageHandler as (msg: MessageEvent) => void)(msg);
-      } else {
-        (this._messageHandler as (chat: ChatModule, msg: MessageEvent) => void)(this.chat, msg);
-      }
+    const consumed = await this._deliverToWaiters(msg);
+    const dispatched = consumed
+      ? Promise.resolve()
+      : this._dispatchEvent({ type: 'message', event: msg, chat: this.chat });
+    if (this.autoMarkRead && !msg.backfilled && String(msg.sender.id) !== String(this.userId)) {
+      this._queueAutoRead(msg, dispatched);
     }
-    this.emit('message', this.chat, msg);
 
     this._emitMemberEventsFromMessage(msg, data);
   }
 
-  _emitMemberEvent(action: MemberAction, event: MemberEvent) {
-    const handler =
-      action === 'join'
-        ? this._joinHandler
-        : action === 'leave'
-          ? this._leaveHandler
-          : action === 'invite'
-            ? this._inviteHandler
-            : this._kickHandler;
+  /**
+   * autoMarkRead: once every handler running in the room has settled, send one NOTIREAD for the highest logId.
+   */
+  _queueAutoRead(msg: MessageEvent, dispatched: Promise<any>) {
+    const key = String(msg.room.id);
+    const pending = this._autoReadPending.get(key) || { handlers: 0, logId: 0, timer: null };
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+      pending.timer = null;
+    }
+    pending.handlers += 1;
+    if (safeNumber(msg.logId, 0) > safeNumber(pending.logId, 0)) pending.logId = msg.logId;
+    this._autoReadPending.set(key, pending);
+
+    void dispatched.catch(() => {}).then(() => {
+      pending.handlers -= 1;
+      if (pending.handlers > 0 || this._autoReadPending.get(key) !== pending) return;
+      pending.timer = setTimeout(() => {
+        this._autoReadPending.delete(key);
+        this.markRead(msg.room.id, pending.logId).catch((err) => {
+          console.warn(`[!] Auto markRead failed for chat ${key}: ${err instanceof Error ? err.message : String(err)}`);
+        });
+      }, AUTO_READ_DEBOUNCE_MS);
+    });
+  }
 
-    if (handler) {
-      if (handler.length <= 1) {
-        (handler as (evt: MemberEvent) => void)(event);
-      } else {
-        (handler as (chat: ChatModule, evt: MemberEvent) => void)(this.chat, event);
-      }
-    }
-    this.emit(action, this.chat, event);
+  _emitMemberEvent(action: MemberAction, event: MemberEvent) {
+    void this._dispatchEvent({ type: action, event, chat: this.chat });
   }
 
   _emitDeleteEvent(event: DeleteEvent) {
-    const handler = this._deleteHandler;
-    if (handler) {
-      if (handler.length <= 1) {
-        (handler as (evt: DeleteEvent) => void)(event);
-      } else {
-        (handler as (chat: ChatModule, evt: DeleteEvent) => void)(this.chat, event);
-      }
-    }
-    this.emit('delete', this.chat, event);
+    void this._dispatchEvent({ type: 'delete', event, chat: this.chat });
   }
 
   _emitHideEvent(event: HideEvent) {
-    const handler = this._hideHandler;
-    if (handler) {
-      if (handler.length <= 1) {
-        (handler as (evt: HideEvent) => void)(event);
-      } else {
-        (handler as (chat: ChatModule, evt: HideEvent) => void)(this.chat, event);
-      }
-    }
-    this.emit('hide', this.chat, event);
+    void this._dispatchEvent({ type: 'hide', event, chat: this.chat });
+  }
+
+  _emitEditEvent(event: EditEvent) {
+    void this._dispatchEvent({ type: 'edit', event, chat: this.chat });
+  }
+
+  _emitReactionEvent(event: ReactionEvent) {
+    void this._dispatchEvent({ type: 'reaction', event, chat: this.chat });
+  }
+
+  _emitReadEvent(event: ReadEvent) {
+    void this._dispatchEvent({ type: 'read', event, chat: this.chat });
   }
 
   _emitMemberEventsFromMessage(msg: MessageEvent, raw: any) {
@@ -1095,6 +1934,7 @@ export class KakaoForgeClient extends EventEmitter {
       message: msg,
       raw: { feed, raw },
     });
+    this._applyMembershipChange(action, msg.room.id, memberIds, nameMap);
     this._emitMemberEvent(action, event);
   }
 
@@ -1263,10 +2103,27 @@ export class KakaoForgeClient extends EventEmitter {
       memberNameMap: nameMap,
       raw: body,
     });
+    this._applyMembershipChange(resolvedAction, roomId, memberIds, nameMap);
     this._emitMemberEvent(resolvedAction, event);
     return true;
   }
 
+  /**
+   * Keep the member caches in step with NEWMEM/DELMEM, after the event has taken the names it needs.
+   */
+  _applyMembershipChange(action: MemberAction, chatId: number | string, memberIds: Array<number | string>, nameMap: Map<string, string>) {
+    if (action === 'leave' || action === 'kick') {
+      this._removeCachedMembers(chatId, memberIds);
+      return;
+    }
+    const joined = memberIds
+      .filter((id) => id && !this._getCachedMemberName(chatId, id) && nameMap.get(String(id)))
+      .map((id) => ({ userId: id, nickName: nameMap.get(String(id)) }));
+    if (joined.length > 0) {
+      this._cacheMembers(this._resolveChatId(chatId), joined);
+    }
+  }
+
   async _emitDeleteEventFromPush(packet: any): Promise<boolean> {
     if (!resolveDeleteActionFromPush(packet?.method)) return false;
     const event = await this._buildModerationEventFromPush('delete', packet);
@@ -1283,7 +2140,60 @@ export class KakaoForgeClient extends EventEmitter {
     return true;
   }
 
-  async _buildModerationEventFromPush(type: 'delete' | 'hide', packet: any): Promise<DeleteEvent | HideEvent | null> {
+  async _emitEditEventFromPush(packet: any): Promise<boolean> {
+    if (!resolveEditActionFromPush(packet?.method)) return false;
+    const event = await this._buildModerationEventFromPush('edit', packet);
+    if (!event || event.type !== 'edit') return false;
+    this._emitEditEvent(event);
+    return true;
+  }
+
+  async _emitReactionEventFromPush(packet: any): Promise<boolean> {
+    if (!resolveReactionActionFromPush(packet?.method)) return false;
+    const event = await this._buildModerationEventFromPush('reaction', packet);
+    if (!event || event.type !== 'reaction') return false;
+    this._emitReactionEvent(event);
+    return true;
+  }
+
+  /**
+   * DECUNREAD: a member (or we, from another device) read the room up to a watermark.
+   */
+  async _emitReadEventFromPush(packet: any): Promise<boolean> {
+    const body = packet?.body || {};
+    const roomIdValue = normalizeIdValue(body.chatId || body.c || 0);
+    const userIdValue = normalizeIdValue(body.userId || body.u || 0);
+    const watermark = normalizeIdValue(body.watermark || body.w || 0);
+    if (!roomIdValue || !userIdValue || !watermark) return false;
+
+    this._setReadWatermarks(roomIdValue, [userIdValue], [watermark]);
+    if (String(userIdValue) === String(this.userId)) {
+      this._markRoomSeen(roomIdValue, safeNumber(watermark, 0));
+    }
+
+    let name = this._getCachedMemberName(roomIdValue, userIdValue);
+    if (!name) {
+      await this._waitForMemberName(roomIdValue, userIdValue, this.memberLookupTimeoutMs);
+      name = this._getCachedMemberName(roomIdValue, userIdValue) || String(userIdValue);
+    }
+    const actor = this._buildMemberRef(roomIdValue, userIdValue, name);
+
+    this._emitReadEvent({
+      type: 'read',
+      room: this._buildRoomPayload(roomIdValue),
+      actor,
+      userId: userIdValue,
+      watermark,
+      raw: packet,
+      chatId: roomIdValue,
+    });
+    return true;
+  }
+
+  async _buildModerationEventFromPush(
+    type: 'delete' | 'hide' | 'edit' | 'reaction',
+    packet: any
+  ): Promise<DeleteEvent | HideEvent | EditEvent | ReactionEvent | null> {
     const body = packet?.body || {};
     const chatLog = extractChatLogPayload(body.chatLog || body.chatlog || body);
     const attachmentRaw =
@@ -1297,7 +2207,8 @@ export class KakaoForgeClient extends EventEmitter {
     const attachmentJson = parseAttachmentJson(attachmentRaw);
     const messageRaw = chatLog?.message ?? chatLog?.msg ?? chatLog?.text ?? null;
     let messageJson: any = null;
-    if (typeof messageRaw === 'string') {
+    // An edit carries the new user text, which may itself look like JSON
+    if ((type === 'delete' || type === 'hide') && typeof messageRaw === 'string') {
       const trimmed = messageRaw.trim();
       if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
         try {
@@ -1448,7 +2359,46 @@ export class KakaoForgeClient extends EventEmitter {
       raw: packet,
       chatId: roomIdValue,
       logId: logIdValue,
-    } as DeleteEvent | HideEvent;
+    } as DeleteEvent | HideEvent | EditEvent | ReactionEvent;
+
+    if (type === 'reaction') {
+      const info = body.reaction && typeof body.reaction === 'object' ? body.reaction : body;
+      const reactionValue = safeNumber(info.reactionType ?? info.type ?? info.rt ?? Reactions.CANCEL, Reactions.CANCEL);
+      const action = String(info.action ?? info.act ?? '').toLowerCase();
+      const added =
+        typeof info.added === 'boolean'
+          ? info.added
+          : reactionValue !== Reactions.CANCEL && info.cancel !== true && !/^(cancel|remove|del)/.test(action);
+      // A cancel push usually only says CANCEL; keep the earlier reaction when it is included
+      const reaction = (
+        reactionValue !== Reactions.CANCEL
+          ? reactionValue
+          : safeNumber(info.prevType ?? info.oldType ?? info.prevReactionType ?? Reactions.CANCEL, Reactions.CANCEL)
+      ) as ReactionTypeValue;
+      return {
+        ...(base as ReactionEvent),
+        actor,
+        userId: actor.id,
+        reaction,
+        added,
+      };
+    }
+
+    if (type === 'edit') {
+      const textRaw = body.msg ?? body.message ?? chatLog?.message ?? chatLog?.msg ?? chatLog?.text ?? '';
+      const text = typeof textRaw === 'string' ? textRaw : String(textRaw);
+      const editEvent: EditEvent = {
+        ...(base as EditEvent),
+        actor: actorIdValue ? actor : (this._getCachedMessageSender(roomIdValue, logIdValue) || actor),
+        text,
+      };
+      const previousText = this._getCachedMessageText(roomIdValue, logIdValue);
+      if (previousText !== null) {
+        editEvent.previousText = previousText;
+      }
+      this._cacheMessageText(roomIdValue, logIdValue, text);
+      return editEvent;
+    }
 
     if (type === 'hide') {
       const categoryRaw =
@@ -1836,9 +2786,24 @@ export class KakaoForgeClient extends EventEmitter {
       }
     }
     const senderType = this._resolveMemberType(roomIdValue, senderIdValue);
+    const mentionEntries = resolveMessageMentions(text, attachmentsRaw);
+    const unnamed = mentionEntries.filter((mention) => !this._getCachedMemberName(roomIdValue, mention.userId));
+    if (roomIdValue && unnamed.length > 0) {
+      await Promise.all(
+        unnamed.map((mention) => this._waitForMemberName(roomIdValue, mention.userId, this.memberLookupTimeoutMs))
+      );
+    }
+    const mentions = mentionEntries.map((mention) => ({
+      ...mention,
+      name: this._getCachedMemberName(roomIdValue, mention.userId) || mention.name,
+    }));
     const msg: MessageEvent = {
       message: { id: logIdValue, text, type, logId: logIdValue },
       attachmentsRaw,
+      content: parseMessageContent(type, text, attachmentsRaw),
+      mentions,
+      spoilers: resolveMessageSpoilers(text, attachmentsRaw),
+      mentionsMe: mentions.some((mention) => String(mention.userId) === String(this.userId)),
       sender: { id: senderIdValue, name: senderName, type: senderType },
       room: {
         id: roomIdValue,
@@ -1857,18 +2822,80 @@ export class KakaoForgeClient extends EventEmitter {
 
     if (roomIdValue && logIdValue) {
       this._cacheMessageSender(roomIdValue, logIdValue, msg.sender);
+      this._cacheMessageText(roomIdValue, logIdValue, text);
     }
 
     if (roomIdValue) {
-      const key = String(roomIdValue);
-      const prev = this._chatRooms.get(key) || {};
-      const prevLast = safeNumber(prev.lastLogId || 0, 0);
-      if (logIdNumeric > prevLast) {
-        this._chatRooms.set(key, { ...prev, lastLogId: logIdNumeric });
-      }
+      this._advanceRoomLog(roomIdValue, logIdNumeric, String(senderIdValue) === String(this.userId));
     }
 
-    return msg;
+    return this.richMessages ? new Message(this, msg) : msg;
+  }
+
+  /**
+   * Move a room's lastLogId forward and count unread messages.
+   * Our own message marks the room read, like the official clients.
+   */
+  _advanceRoomLog(chatId: number | string, logId: number, own: boolean) {
+    const key = String(chatId);
+    const prev = this._chatRooms.get(key) || {};
+    if (!logId || logId <= safeNumber(prev.lastLogId || 0, 0)) return;
+    this._chatRooms.set(key, {
+      ...prev,
+      lastLogId: logId,
+      lastSeenLogId: own ? logId : prev.lastSeenLogId,
+      unreadCount: own ? 0 : safeNumber(prev.unreadCount || 0, 0) + 1,
+    });
+  }
+
+  /**
+   * We read the room up to logId (NOTIREAD sent, or DECUNREAD from another device).
+   * Unread drops to zero once the watermark reaches the last known message.
+   */
+  _markRoomSeen(chatId: number | string, logId: number) {
+    const key = String(chatId);
+    const prev = this._chatRooms.get(key) || {};
+    if (!logId || logId <= safeNumber(prev.lastSeenLogId || 0, 0)) return;
+    const lastLogId = Math.max(safeNumber(prev.lastLogId || 0, 0), safeNumber(prev.lastChatLogId || 0, 0));
+    this._chatRooms.set(key, {
+      ...prev,
+      lastSeenLogId: logId,
+      unreadCount: logId >= lastLogId ? 0 : prev.unreadCount,
+    });
+  }
+
+  _setReadWatermarks(chatId: number | string, userIds: any[], watermarks: any[]) {
+    if (!Array.isArray(userIds) || !Array.isArray(watermarks)) return;
+    const chatKey = String(chatId);
+    let map = this._readWatermarks.get(chatKey);
+    if (!map) {
+      map = new Map();
+      this._readWatermarks.set(chatKey, map);
+    }
+    userIds.forEach((userId, index) => {
+      const id = normalizeIdValue(userId);
+      const watermark = normalizeIdValue(watermarks[index] ?? 0);
+      if (!id || !watermark) return;
+      const prev = map.get(String(id));
+      if (prev !== undefined && safeNumber(prev, 0) >= safeNumber(watermark, 0)) return;
+      map.set(String(id), watermark);
+    });
+  }
+
+  _getReadWatermarks(chatId: number | string) {
+    return this._readWatermarks.get(String(chatId)) || null;
+  }
+
+  /**
+   * Load every member's read watermark for a room (CHATONROOM a/w lists).
+   */
+  async _fetchReadWatermarks(chatId: number | string) {
+    if (!this._carriage) throw new Error('LOCO not connected');
+    const resolvedChatId = this._resolveChatId(chatId);
+    const res = await this._carriage.chatOnRoom({ chatId: resolvedChatId, token: 0, opt: 0 });
+    const body = res?.body || {};
+    this._setReadWatermarks(resolvedChatId, body.a || [], body.w || []);
+    return this._getReadWatermarks(resolvedChatId);
   }
 
   async _ensureMemberType(chatId: number | string, userId: number | string) {
@@ -2020,6 +3047,7 @@ export class KakaoForgeClient extends EventEmitter {
       );
 
       const lastSeenLogId = safeNumber(chat.lastSeenLogId, prev.lastSeenLogId || 0);
+      const unreadCount = safeNumber(chat.newMessageCount ?? chat.n, prev.unreadCount || 0);
 
       const needsTitle = !flags.isOpenChat && !title && displayMembers.length > 0;
       const next: ChatRoomInfo = {
@@ -2037,6 +3065,7 @@ export class KakaoForgeClient extends EventEmitter {
         needsTitle,
         lastChatLogId,
         lastSeenLogId,
+        unreadCount,
       };
 
       this._chatRooms.set(key, next);
@@ -2114,21 +3143,34 @@ export class KakaoForgeClient extends EventEmitter {
     const task = (async () => {
       let token = 0;
       let pages = 0;
+      let complete = false;
+      const seen = new Set<string>();
       while (pages < 30) {
         const res = await this._carriage.memList({ chatId: resolvedChatId, token, excludeMe: false });
-        const body = res?.body || {};
+        const body: any = res?.body || {};
         const members = body.members || body.memberList || body.memList || [];
         if (Array.isArray(members) && members.length > 0) {
           this._cacheMembers(resolvedChatId, members);
+          for (const mem of members) {
+            seen.add(String(normalizeIdValue(mem?.userId || mem?.id || mem?.memberId || 0)));
+          }
         }
         const nextToken = safeNumber(
           body.token || body.nextToken || body.memberToken || 0,
           0
         );
-        if (!nextToken || nextToken === token) break;
+        if (!nextToken || nextToken === token) {
+          complete = true;
+          break;
+        }
         token = nextToken;
         pages += 1;
       }
+      // Only a full listing says who is gone
+      if (complete && seen.size > 0) {
+        const gone = this._getCachedMemberIds(resolvedChatId).filter((id) => !seen.has(String(id)));
+        this._removeCachedMembers(resolvedChatId, gone);
+      }
       this._touchMemberCache(resolvedChatId);
     })()
       .catch((err) => {
@@ -2159,6 +3201,45 @@ export class KakaoForgeClient extends EventEmitter {
     return value === undefined ? null : value;
   }
 
+  _getCachedMemberProfileImage(chatId: number | string, userId: number | string) {
+    const resolvedChatId = this._resolveChatId(chatId);
+    const map = this._memberProfileImages.get(String(resolvedChatId));
+    if (!map) return '';
+    return map.get(String(userId)) || '';
+  }
+
+  _removeCachedMembers(chatId: number | string, userIds: Array<number | string>) {
+    if (userIds.length === 0) return;
+    const key = String(this._resolveChatId(chatId));
+    for (const cache of [this._memberNames, this._memberTypes, this._memberProfileImages]) {
+      const map = cache.get(key);
+      if (!map) continue;
+      for (const userId of userIds) {
+        map.delete(String(userId));
+      }
+    }
+  }
+
+  /**
+   * Drop everything cached for a room we are no longer in.
+   */
+  _forgetRoom(chatId: number | string) {
+    const key = String(this._resolveChatId(chatId));
+    this._chatRooms.delete(key);
+    for (const cache of [
+      this._memberNames,
+      this._memberTypes,
+      this._memberProfileImages,
+      this._memberCacheUpdatedAt,
+      this._messageSenderCache,
+      this._messageTextCache,
+      this._readWatermarks,
+    ]) {
+      cache.delete(key);
+    }
+    this._openChatInitialized.delete(key);
+  }
+
   _getCachedMemberIds(chatId: number | string) {
     const resolvedChatId = this._resolveChatId(chatId);
     const map = this._memberNames.get(String(resolvedChatId));
@@ -2181,11 +3262,16 @@ export class KakaoForgeClient extends EventEmitter {
     const key = String(chatId);
     const map = this._memberNames.get(key) || new Map<string, string>();
     const typeMap = this._memberTypes.get(key) || new Map<string, number>();
+    const imageMap = this._memberProfileImages.get(key) || new Map<string, string>();
     for (const mem of members) {
       const userId = normalizeIdValue(mem?.userId || mem?.id || mem?.memberId || mem?.user_id || 0);
       if (!userId) continue;
       const name = this._extractMemberName(mem);
       map.set(String(userId), String(name || ''));
+      const image = mem?.profileImageUrl || mem?.pi || mem?.fullProfileImageUrl || mem?.originalProfileImageUrl;
+      if (image) {
+        imageMap.set(String(userId), String(image));
+      }
       const rawMemberType = mem?.mt ?? mem?.ut ?? mem?.userType ?? mem?.memberType ?? mem?.linkMemberType;
       if (rawMemberType !== undefined && rawMemberType !== null) {
         const parsed = safeNumber(rawMemberType, NaN);
@@ -2200,6 +3286,9 @@ export class KakaoForgeClient extends EventEmitter {
     if (typeMap.size > 0) {
       this._memberTypes.set(key, typeMap);
     }
+    if (imageMap.size > 0) {
+      this._memberProfileImages.set(key, imageMap);
+    }
     this._touchMemberCache(chatId);
 
     const room = this._chatRooms.get(key);
@@ -2242,6 +3331,37 @@ export class KakaoForgeClient extends EventEmitter {
     return cached || null;
   }
 
+  _cacheMessageText(chatId: number | string, logId: number | string, text: string) {
+    if (!chatId || !logId || typeof text !== 'string') return;
+    const logKey = String(normalizeIdValue(logId));
+    if (!logKey || logKey === '0') return;
+    const chatKey = String(chatId);
+    let map = this._messageTextCache.get(chatKey);
+    if (!map) {
+      map = new Map();
+      this._messageTextCache.set(chatKey, map);
+    }
+    if (map.has(logKey)) {
+      map.delete(logKey);
+    }
+    map.set(logKey, text);
+    while (map.size > MESSAGE_SENDER_CACHE_LIMIT) {
+      const firstKey = map.keys().next().value;
+      if (firstKey === undefined) break;
+      map.delete(firstKey);
+    }
+  }
+
+  _getCachedMessageText(chatId: number | string, logId: number | string): string | null {
+    if (!chatId || !logId) return null;
+    const logKey = String(normalizeIdValue(logId));
+    if (!logKey || logKey === '0') return null;
+    const map = this._messageTextCache.get(String(chatId));
+    if (!map) return null;
+    const cached = map.get(logKey);
+    return cached === undefined ? null : cached;
+  }
+
   _applyMemberTypePush(packet: any) {
     const body = packet?.body || {};
     const resolvedChatId = normalizeIdValue(body.chatId || body.c || 0);
@@ -2329,7 +3449,7 @@ export class KakaoForgeClient extends EventEmitter {
     let pages = 0;
     while (pages < 30) {
       const res = await this._carriage.memList({ chatId, token, excludeMe: false });
-      const body = res?.body || {};
+      const body: any = res?.body || {};
       const members = body.members || body.memberList || body.memList || [];
       if (Array.isArray(members) && members.length > 0) {
         for (const mem of members) {
@@ -2360,15 +3480,7 @@ export class KakaoForgeClient extends EventEmitter {
   async getChatRooms() {
     if (!this._carriage) throw new Error('LOCO not connected');
 
-    const chatIds: Long[] = [];
-    const maxIds: Long[] = [];
-    for (const [key, room] of this._chatRooms.entries()) {
-      const chatIdValue = normalizeIdValue(key);
-      if (!chatIdValue) continue;
-      chatIds.push(toLong(chatIdValue));
-      maxIds.push(toLong(room.lastChatLogId || 0));
-    }
-
+    const { chatIds, maxIds } = this._chatLogCursors();
     const res = await this._carriage.lchatList({
       chatIds,
       maxIds,
@@ -2383,7 +3495,7 @@ export class KakaoForgeClient extends EventEmitter {
   /**
    * Sync messages via LOCO (SYNCMSG).
    */
-  async syncMessages(chatId: number | string, { since = 0, count = 50, max = 0, emit = true }: any = {}) {
+  async syncMessages(chatId: number | string, { since = 0, count = 50, max = 0, emit = true, backfilled = false }: any = {}) {
     if (!this._carriage) throw new Error('LOCO not connected');
 
     const key = String(normalizeIdValue(chatId));
@@ -2404,12 +3516,15 @@ export class KakaoForgeClient extends EventEmitter {
         const logId = safeNumber(log?.logId || log?.msgId || 0, 0);
         if (logId > cur) {
           if (emit) {
-            this._emitMessage({ chatId, chatLog: log });
+            this._emitMessage(backfilled ? { chatId, chatLog: log, backfilled } : { chatId, chatLog: log });
           }
         }
         if (logId > maxLogId) maxLogId = logId;
       }
-      this._chatRooms.set(key, { ...room, lastLogId: maxLogId });
+      const latest = this._chatRooms.get(key) || room;
+      if (maxLogId > safeNumber(latest.lastLogId || 0, 0)) {
+        this._chatRooms.set(key, { ...latest, lastLogId: maxLogId });
+      }
     }
 
     return res?.body || res;
@@ -2443,7 +3558,7 @@ export class KakaoForgeClient extends EventEmitter {
     this._recordChatAlias(resolvedChatId);
     this._recordLogAlias(resolvedChatId, normalizedLogId);
     const res = await this._carriage.getMsgs([resolvedChatId], [normalizedLogId]);
-    const body = res?.body || {};
+    const body: any = res?.body || {};
     const logs =
       body.chatLogs ||
       body.chatLog ||
@@ -2579,28 +3694,24 @@ export class KakaoForgeClient extends EventEmitter {
     return cached || '';
   }
 
-  async _enqueueSend<T>(task: () => Promise<T>) {
-    const prev = this._sendQueue;
-    const interval = this.sendIntervalMs;
-    const next = prev
-      .catch(() => {})
-      .then(async () => {
-        if (interval > 0) {
-          const now = Date.now();
-          let waitMs = this._lastSendAt + interval - now;
-          if (waitMs < 0) waitMs = 0;
-          if (waitMs > 0) {
-            await sleepMs(waitMs);
-          }
-        }
-        this._lastSendAt = Date.now();
-        return task();
-      });
-    this._sendQueue = next.then(
-      () => {},
-      () => {}
-    );
-    return next;
+  /**
+   * The Carriage connection; throws when the client is not connected.
+   */
+  _requireCarriage() {
+    if (!this._carriage) {
+      throw new Error('LOCO not connected. Call client.connect() first.');
+    }
+    return this._carriage;
+  }
+
+  /**
+   * Run a LOCO request through the send scheduler (token buckets per room and globally).
+   */
+  _scheduleSend<T>(
+    task: () => Promise<T>,
+    opts: { chatId?: number | string; kind?: SendKind; priority?: SendPriority } = {}
+  ) {
+    return this.sendScheduler.schedule(task, opts);
   }
 
 
@@ -2675,15 +3786,80 @@ export class KakaoForgeClient extends EventEmitter {
     if (this._bubble) {
       this._bubble.oauthToken = this.oauthToken;
     }
+    if (this.authPath) {
+      this._saveAuthTokens();
+    }
 
     console.log('[+] Token refreshed');
+    this.emit('tokenRefreshed', {
+      userId: this.userId,
+      accessToken: this.oauthToken,
+      refreshToken: this.refreshToken,
+      deviceUuid: this.deviceUuid,
+      authPath: this.authPath || undefined,
+    });
     return result;
   }
 
+  /**
+   * Write refreshed tokens back to authPath (createAuthByQR format, raw kept).
+   */
+  _saveAuthTokens() {
+    let raw: any;
+    try {
+      raw = loadAuthFile(this.authPath).raw;
+    } catch {
+      raw = undefined;
+    }
+    try {
+      saveAuthFile(this.authPath, {
+        userId: this.userId,
+        accessToken: this.oauthToken,
+        refreshToken: this.refreshToken,
+        deviceUuid: this.deviceUuid,
+        savedAt: formatKstTimestamp(),
+        raw,
+      });
+    } catch (err) {
+      console.error(`[!] Failed to save ${this.authPath}: ${err.message}`);
+    }
+  }
+
   get connected() {
     return !!this._carriage?._socket;
   }
 
+  /**
+   * Feed a packet capture (file or entries) through the push pipeline with no network.
+   * Resolves after every recorded push has been handled.
+   */
+  async replay(source: string | PacketCaptureEntry[], { realtime = false }: { realtime?: boolean } = {}) {
+    const entries = typeof source === 'string' ? readPacketCapture(source) : source;
+    if (this._carriage) {
+      this._carriage.disconnect();
+    }
+    const carriage = new ReplayCarriageClient(entries);
+    this._carriage = carriage;
+
+    const login = carriage.peekResponse('LOGINLIST');
+    if (login) {
+      this._applyChatList(login.body);
+    }
+    this.emit('ready', this.chat);
+
+    let prevTs = 0;
+    for (const { ts, packet } of carriage.pushes()) {
+      if (realtime && prevTs && ts > prevTs) {
+        await sleepMs(ts - prevTs);
+      }
+      prevTs = ts;
+      await this._onPush(packet);
+    }
+    while (this._messageChains.size > 0) {
+      await Promise.all([...this._messageChains.values()]);
+    }
+  }
+
   get transport(): TransportMode {
     if (this._carriage?._socket) return 'loco';
     return null;
@@ -2694,8 +3870,25 @@ export class KakaoForgeClient extends EventEmitter {
     this._clearReconnectTimer();
     this._reconnectAttempt = 0;
     this._stopMemberRefresh();
+    if (this._stateCheckpointTimer) {
+      this._stopStateCheckpoint();
+      this.saveState().catch(() => {});
+    }
     if (this._booking) this._booking.disconnect();
     if (this._carriage) this._carriage.disconnect();
+    if (this._recorder) this._recorder.close();
+    for (const waiter of [...this._messageWaiters]) {
+      waiter.close(new Error('Disconnected'));
+    }
+    for (const subscription of [...this._eventStreams]) {
+      subscription.close();
+    }
+    if (this.outbox) this.outbox.close(new Error('Disconnected'));
+    this.schedules.stop();
+    for (const pending of this._autoReadPending.values()) {
+      if (pending.timer) clearTimeout(pending.timer);
+    }
+    this._autoReadPending.clear();
     this.emit('disconnected');
   }
 }
@@ -2704,9 +3897,11 @@ export class KakaoForgeClient extends EventEmitter {
 import { applyMessageMixin, type MessageMixin } from './message-mixin';
 import { applyMediaMixin, type MediaMixin } from './media-mixin';
 import { applyOpenChatMixin, type OpenChatMixin } from './openchat-mixin';
+import { applyChatRoomMixin, type ChatRoomMixin } from './chatroom-mixin';
 applyMessageMixin(KakaoForgeClient);
 applyMediaMixin(KakaoForgeClient);
 applyOpenChatMixin(KakaoForgeClient);
+applyChatRoomMixin(KakaoForgeClient);
 
 // Declare interface merging for mixins
-export interface KakaoForgeClient extends MessageMixin, MediaMixin, OpenChatMixin {}
+export interface KakaoForgeClient extends MessageMixin, MediaMixin, OpenChatMixin, ChatRoomMixin {}
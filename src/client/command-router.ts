@@ -0,0 +1,344 @@
+import { MemberType } from '../types/member-type';
+import {
+  type MessageEvent,
+  type MessageMention,
+  type CommandArgSpec,
+  type CommandContext,
+  type CommandDefinition,
+  type CommandDeniedEvent,
+} from '../types';
+import { resolveMessageMentions } from '../utils/mention';
+import type { KakaoForgeClient } from './client';
+
+type CommandToken = {
+  value: string;
+  start: number;
+  mention?: MessageMention;
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, on: true, '1': true, y: true,
+  false: false, no: false, off: false, '0': false, n: false,
+};
+
+const COOLDOWN_PRUNE_SIZE = 1000;
+
+/**
+ * Split `text` from `from` into arguments. Quotes group words, and a mention is always one token.
+ */
+function tokenizeArgs(text: string, from: number, mentions: MessageMention[]) {
+  const spans = mentions
+    .flatMap((mention) => mention.ranges.map((range) => ({ ...range, mention })))
+    .filter((span) => span.start >= from)
+    .sort((a, b) => a.start - b.start);
+
+  const tokens: CommandToken[] = [];
+  let i = from;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i += 1;
+      continue;
+    }
+
+    const span = spans.find((item) => item.start === i);
+    if (span) {
+      tokens.push({ value: text.slice(span.start, span.end), start: i, mention: span.mention });
+      i = span.end;
+      continue;
+    }
+
+    const start = i;
+    const quote = text[i] === '"' || text[i] === "'" ? text[i] : '';
+    let value = '';
+    if (quote) i += 1;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '\\' && i + 1 < text.length && (text[i + 1] === quote || text[i + 1] === '\\')) {
+        value += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (quote ? ch === quote : /\s/.test(ch)) break;
+      value += ch;
+      i += 1;
+    }
+    if (quote) i += 1;
+    tokens.push({ value, start });
+  }
+  return tokens;
+}
+
+function formatArgSpec(spec: CommandArgSpec) {
+  const label = spec.type === 'rest' ? `${spec.name}...` : spec.name;
+  return spec.optional || spec.default !== undefined ? `[${label}]` : `<${label}>`;
+}
+
+/**
+ * Prefix command dispatcher on top of onMessage: !name args...
+ */
+export class CommandRouter {
+  client: KakaoForgeClient;
+  prefixes: string[];
+  _commands: Map<string, CommandDefinition>;
+  _lookup: Map<string, CommandDefinition>;
+  _roomCommands: Map<string, Set<string>>;
+  _cooldowns: Map<string, number>;
+  _listener: (msg: MessageEvent) => Promise<boolean>;
+  _started: boolean;
+
+  constructor(client: KakaoForgeClient, { prefixes = ['!'], help = true }: { prefixes?: string[]; help?: boolean } = {}) {
+    this.client = client;
+    this.prefixes = prefixes;
+    this._commands = new Map();
+    this._lookup = new Map();
+    this._roomCommands = new Map();
+    this._cooldowns = new Map();
+    this._listener = (msg) => this.handle(msg);
+    this._started = false;
+
+    if (help) {
+      const helpCommand: CommandDefinition = {
+        name: 'help',
+        description: 'Show available commands',
+        args: [{ name: 'command', optional: true }],
+        run: (ctx) => ctx.reply(this.helpText(ctx.msg, ctx.args.command, ctx.prefix)),
+      };
+      this._commands.set('help', helpCommand);
+      this._lookup.set('help', helpCommand);
+    }
+  }
+
+  /**
+   * Add a command (replaces one with the same name). Returns a function that removes it.
+   */
+  register(def: CommandDefinition) {
+    if (!def?.name || typeof def.run !== 'function') {
+      throw new Error('Command requires name and run');
+    }
+    this.unregister(def.name);
+    this._commands.set(def.name, def);
+    for (const key of [def.name, ...(def.aliases || [])]) {
+      this._lookup.set(key.toLowerCase(), def);
+    }
+    this.start();
+    return () => this.unregister(def.name);
+  }
+
+  /**
+   * Remove a command; the router stops listening once no command is left.
+   */
+  unregister(name: string) {
+    const def = this._commands.get(name);
+    if (!def) return;
+    this._commands.delete(name);
+    for (const [key, value] of this._lookup) {
+      if (value === def) this._lookup.delete(key);
+    }
+    if (this._commands.size === 0) this.dispose();
+  }
+
+  /**
+   * Start answering commands. register() calls this; call it directly to serve only `help`.
+   */
+  start() {
+    if (this._started) return;
+    this._started = true;
+    this.client.onMessage(this._listener);
+  }
+
+  /**
+   * Stop listening for messages. Registered commands are kept for a later start().
+   */
+  dispose() {
+    if (!this._started) return;
+    this._started = false;
+    this.client.off('message', this._listener);
+  }
+
+  /**
+   * Restrict a room to the given command names; null enables every command again.
+   */
+  setRoomCommands(chatId: number | string, names: string[] | null) {
+    const key = String(chatId);
+    if (!names) {
+      this._roomCommands.delete(key);
+    } else {
+      this._roomCommands.set(key, new Set(names));
+    }
+  }
+
+  isEnabled(chatId: number | string, name: string) {
+    const enabled = this._roomCommands.get(String(chatId));
+    return !enabled || enabled.has(name);
+  }
+
+  usage(def: CommandDefinition, prefix?: string) {
+    const head = `${prefix ?? (def.prefixes || this.prefixes)[0] ?? ''}${def.name}`;
+    return [head, ...(def.args || []).map(formatArgSpec)].join(' ');
+  }
+
+  /**
+   * Commands the sender can run in a room (enabled, permitted, not hidden), or the details of one command.
+   */
+  helpText(msg: MessageEvent, name?: string, prefix?: string) {
+    const visible = [...this._commands.values()]
+      .filter((def) => !def.hidden && this.isEnabled(msg.room.id, def.name))
+      .filter((def) => !def.permission || this._hasPermission(def, msg));
+
+    if (name) {
+      const stripped = this.prefixes.reduce(
+        (value, item) => (item && value.startsWith(item) ? value.slice(item.length) : value),
+        String(name)
+      );
+      const def = this._lookup.get(stripped.toLowerCase());
+      if (!def || !visible.includes(def)) return `Unknown command: ${name}`;
+      const lines = [this.usage(def, prefix)];
+      if (def.description) lines.push(def.description);
+      if (def.aliases && def.aliases.length > 0) lines.push(`Aliases: ${def.aliases.join(', ')}`);
+      for (const spec of def.args || []) {
+        if (spec.description) lines.push(`  ${spec.name}: ${spec.description}`);
+      }
+      return lines.join('\n');
+    }
+
+    return visible
+      .map((def) => (def.description ? `${this.usage(def, prefix)} - ${def.description}` : this.usage(def, prefix)))
+      .join('\n');
+  }
+
+  /**
+   * Match, check and run a command for an incoming message. Returns true if a command ran.
+   */
+  async handle(msg: MessageEvent) {
+    const text = msg.message?.text || '';
+    if (!text || String(msg.sender.id) === String(this.client.userId)) return false;
+
+    const match = this._match(text);
+    if (!match) return false;
+    const { def, prefix, name, argsStart } = match;
+    if (!this.isEnabled(msg.room.id, def.name)) return false;
+
+    if (def.permission && !this._hasPermission(def, msg)) {
+      this._deny({ reason: 'permission', command: def, msg });
+      return false;
+    }
+
+    const mentions = msg.mentions ?? resolveMessageMentions(text, msg.attachmentsRaw);
+    const tokens = tokenizeArgs(text, argsStart, mentions);
+    let args: Record<string, any>;
+    try {
+      args = this._parseArgs(def, text, tokens);
+    } catch (err) {
+      this._deny({ reason: 'usage', command: def, msg, error: err });
+      return false;
+    }
+
+    if (def.cooldownMs && def.cooldownMs > 0) {
+      const key = `${def.name}:${msg.sender.id}`;
+      const now = Date.now();
+      const until = this._cooldowns.get(key) || 0;
+      if (until > now) {
+        this._deny({ reason: 'cooldown', command: def, msg, retryAfterMs: until - now });
+        return false;
+      }
+      this._setCooldown(key, now + def.cooldownMs, now);
+    }
+
+    const ctx: CommandContext = {
+      name,
+      prefix,
+      command: def,
+      args,
+      rawArgs: tokens.map((token) => token.value),
+      msg,
+      chat: this.client.chat,
+      reply: (replyText, opts) => this.client.chat.sendText(msg.room.id, replyText, opts),
+    };
+    await def.run(ctx);
+    return true;
+  }
+
+  _match(text: string) {
+    for (const def of new Set(this._lookup.values())) {
+      const prefixes = [...(def.prefixes || this.prefixes)].sort((a, b) => b.length - a.length);
+      const prefix = prefixes.find((item) => text.startsWith(item));
+      if (prefix === undefined) continue;
+      const rest = text.slice(prefix.length);
+      const name = rest.split(/\s/, 1)[0];
+      if (!name || this._lookup.get(name.toLowerCase()) !== def) continue;
+      return { def, prefix, name, argsStart: prefix.length + name.length };
+    }
+    return null;
+  }
+
+  _hasPermission(def: CommandDefinition, msg: MessageEvent) {
+    const type = msg.sender.type;
+    if (def.permission === 'owner') return type === MemberType.OpenChat.Owner;
+    return type === MemberType.OpenChat.Owner || type === MemberType.OpenChat.Manager;
+  }
+
+  _parseArgs(def: CommandDefinition, text: string, tokens: CommandToken[]) {
+    const args: Record<string, any> = {};
+    const specs = def.args || [];
+    let index = 0;
+    for (const spec of specs) {
+      const token = tokens[index];
+      if (!token) {
+        if (spec.default !== undefined) {
+          args[spec.name] = spec.default;
+        } else if (!spec.optional) {
+          throw new Error(`Missing argument: ${spec.name}`);
+        }
+        continue;
+      }
+      if (spec.type === 'rest') {
+        args[spec.name] = text.slice(token.start).trim();
+        index = tokens.length;
+        break;
+      }
+      args[spec.name] = this._coerceArg(spec, token);
+      index += 1;
+    }
+    return args;
+  }
+
+  _coerceArg(spec: CommandArgSpec, token: CommandToken) {
+    const value = token.value;
+    switch (spec.type || 'string') {
+      case 'number': {
+        const num = Number(value);
+        if (!value || Number.isNaN(num)) throw new Error(`${spec.name} must be a number`);
+        return num;
+      }
+      case 'integer':
+        if (!/^[-+]?\d+$/.test(value)) throw new Error(`${spec.name} must be an integer`);
+        return parseInt(value, 10);
+      case 'boolean': {
+        const bool = BOOLEAN_VALUES[value.toLowerCase()];
+        if (bool === undefined) throw new Error(`${spec.name} must be true or false`);
+        return bool;
+      }
+      case 'mention':
+        if (!token.mention) throw new Error(`${spec.name} must be a mention`);
+        return { userId: token.mention.userId, name: token.mention.name };
+      default:
+        return value;
+    }
+  }
+
+  _setCooldown(key: string, until: number, now: number) {
+    if (this._cooldowns.size >= COOLDOWN_PRUNE_SIZE) {
+      for (const [oldKey, oldUntil] of this._cooldowns) {
+        if (oldUntil <= now) this._cooldowns.delete(oldKey);
+      }
+    }
+    this._cooldowns.set(key, until);
+  }
+
+  _deny(event: CommandDeniedEvent) {
+    if (this.client.debug) {
+      console.error(`[DBG] command ${event.command.name} denied: ${event.reason}`);
+    }
+    this.client.emit('commandDenied', event);
+  }
+}
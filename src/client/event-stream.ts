@@ -0,0 +1,95 @@
+import { type EventContext } from '../types';
+
+export type EventStreamOverflow = 'dropOldest' | 'error';
+
+/**
+ * Bounded async iterator fed by the client's event dispatch.
+ * When the consumer falls behind, the oldest item is dropped or the stream fails, depending on `overflow`.
+ */
+export class EventStream<T> implements AsyncIterableIterator<T> {
+  bufferSize: number;
+  overflow: EventStreamOverflow;
+  dropped: number;
+  closed: boolean;
+  _queue: T[];
+  _readers: Array<{ resolve: (result: IteratorResult<T>) => void; reject: (err: Error) => void }>;
+  _error: Error | null;
+  _onClose: () => void;
+
+  constructor({ bufferSize = 100, overflow = 'dropOldest' }: { bufferSize?: number; overflow?: EventStreamOverflow }, onClose: () => void) {
+    this.bufferSize = Math.max(1, bufferSize);
+    this.overflow = overflow;
+    this.dropped = 0;
+    this.closed = false;
+    this._queue = [];
+    this._readers = [];
+    this._error = null;
+    this._onClose = onClose;
+  }
+
+  push(item: T) {
+    if (this.closed) return;
+    const reader = this._readers.shift();
+    if (reader) {
+      reader.resolve({ value: item, done: false });
+      return;
+    }
+    if (this._queue.length >= this.bufferSize) {
+      if (this.overflow === 'error') {
+        this._fail(new Error(`Event stream buffer overflow (bufferSize=${this.bufferSize})`));
+        return;
+      }
+      this._queue.shift();
+      this.dropped += 1;
+    }
+    this._queue.push(item);
+  }
+
+  /**
+   * Stop receiving events. Items already buffered are still yielded.
+   */
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    for (const reader of this._readers.splice(0)) {
+      reader.resolve({ value: undefined, done: true });
+    }
+    this._onClose();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this._queue.length > 0) {
+      return Promise.resolve({ value: this._queue.shift(), done: false });
+    }
+    if (this._error) {
+      const err = this._error;
+      this._error = null;
+      return Promise.reject(err);
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this._readers.push({ resolve, reject }));
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this._queue = [];
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  _fail(err: Error) {
+    this._error = err;
+    this.closed = true;
+    this._onClose();
+  }
+}
+
+export type EventSubscription = {
+  accept: (ctx: EventContext) => void;
+  close: () => void;
+};
@@ -1,9 +1,8 @@
 ﻿import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { BookingClient } from '../net/booking-client';
-import { CarriageClient } from '../net/carriage-client';
 import { uploadMultipartFile } from '../net/upload-client';
+import { LocoStatusError } from '../protocol/loco-status';
 import { guessMime, readImageSize } from '../util/media';
 import {
   buildUserAgent,
@@ -102,9 +101,9 @@ async function _ensureVideoConf(this: KakaoForgeClient) {
     if (this._conf && hasTrailerProfile(this._conf)) {
       return this._conf;
     }
-    const booking = new BookingClient();
+    const booking = this._createBookingClient();
     try {
-      await booking.connect();
+      await this._connectBooking(booking);
       const conf = await booking.getConf({
         userId: this.userId,
         os: this.os,
@@ -453,10 +452,14 @@ async function _uploadMedia(this: KakaoForgeClient,
     if (ext) shipBody.e = ext;
     if (opts.extra) shipBody.ex = opts.extra;
 
-    const shipRes = await this._carriage.request('SHIP', shipBody, opts.timeoutMs || 10000);
-    if (typeof shipRes.status === 'number' && shipRes.status !== 0) {
-      throw new Error(`SHIP failed: status=${shipRes.status}`);
-    }
+    // Status errors are thrown inside the task so the scheduler sees a -303 and slows uploads down
+    const shipRes = await this._scheduleSend(async () => {
+      const res = await this._carriage.request('SHIP', shipBody, opts.timeoutMs || 10000);
+      if (typeof res.status === 'number' && res.status !== 0) {
+        throw new LocoStatusError('SHIP', res.status, { packetId: res.packetId, body: res.body });
+      }
+      return res;
+    }, { chatId: uploadChatId, kind: 'upload' });
     const shipBodyRes = shipRes?.body || {};
     const token = shipBodyRes.k || shipBodyRes.key || shipBodyRes.token;
     if (!token) {
@@ -469,7 +472,7 @@ async function _uploadMedia(this: KakaoForgeClient,
     if (!host || !port) {
       const trailerRes = await this._carriage.request('GETTRAILER', { k: token, t: logType }, opts.timeoutMs || 10000);
       if (typeof trailerRes.status === 'number' && trailerRes.status !== 0) {
-        throw new Error(`GETTRAILER failed: status=${trailerRes.status}`);
+        throw new LocoStatusError('GETTRAILER', trailerRes.status, { packetId: trailerRes.packetId, body: trailerRes.body });
       }
       const trailerBody = trailerRes?.body || {};
       host = host || trailerBody.vh || trailerBody.host || '';
@@ -480,7 +483,7 @@ async function _uploadMedia(this: KakaoForgeClient,
       throw new Error('UPLOAD failed: no trailer host/port');
     }
 
-    const uploadClient = new CarriageClient();
+    const uploadClient = this._createCarriageClient();
     uploadClient.on('error', (err) => {
       if (this.debug) {
         console.error('[DBG] Upload error:', err.message);
@@ -534,10 +537,13 @@ async function _uploadMedia(this: KakaoForgeClient,
       }
 
       completeWait = waitForPushMethod(uploadClient, 'COMPLETE', opts.timeoutMs || 20000);
-      postRes = await uploadClient.request('POST', postBody, opts.timeoutMs || 10000);
-      if (typeof postRes.status === 'number' && postRes.status !== 0) {
-        throw new Error(`UPLOAD POST failed: status=${postRes.status}`);
-      }
+      postRes = await this._scheduleSend(async () => {
+        const res = await uploadClient.request('POST', postBody, opts.timeoutMs || 10000);
+        if (typeof res.status === 'number' && res.status !== 0) {
+          throw new LocoStatusError('POST', res.status, { packetId: res.packetId, body: res.body });
+        }
+        return res;
+      }, { chatId: uploadChatId, kind: 'upload' });
       const offset = safeNumber(postRes?.body?.o, 0);
       if (offset < stat.size) {
         await streamEncryptedFile(uploadClient, filePath, offset, stat.size, opts.onProgress);
@@ -545,7 +551,7 @@ async function _uploadMedia(this: KakaoForgeClient,
       completePacket = await completeWait.promise;
       const completeBody = completePacket?.body || {};
       if (typeof completeBody.status === 'number' && completeBody.status !== 0) {
-        throw new Error(`UPLOAD COMPLETE failed: status=${completeBody.status}`);
+        throw new LocoStatusError('COMPLETE', completeBody.status, { packetId: completePacket.packetId, body: completeBody });
       }
       await uploadClient.end();
     } finally {
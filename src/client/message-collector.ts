@@ -0,0 +1,99 @@
+import { type MessageEvent, type MessageFilter } from '../types';
+
+export type MessageWaiter = {
+  chatKey: string;
+  filter: MessageFilter;
+  consume: boolean;
+  deliver: (msg: MessageEvent) => void;
+  close: (err: Error) => void;
+};
+
+export type MessageCollectorEndReason = 'max' | 'idle' | 'abort' | 'disconnect' | 'stop';
+
+/**
+ * Async iterator over matching messages of one room. Ends on max, idle, abort, disconnect or stop().
+ */
+export class MessageCollector implements AsyncIterableIterator<MessageEvent> {
+  max: number;
+  idle: number;
+  received: number;
+  endReason: MessageCollectorEndReason | null;
+  _queue: MessageEvent[];
+  _readers: Array<(result: IteratorResult<MessageEvent>) => void>;
+  _idleTimer: NodeJS.Timeout | null;
+  _onEnd: () => void;
+
+  constructor({ max = 0, idle = 0 }: { max?: number; idle?: number }, onEnd: () => void) {
+    this.max = max;
+    this.idle = idle;
+    this.received = 0;
+    this.endReason = null;
+    this._queue = [];
+    this._readers = [];
+    this._idleTimer = null;
+    this._onEnd = onEnd;
+    this._armIdle();
+  }
+
+  get ended() {
+    return this.endReason !== null;
+  }
+
+  push(msg: MessageEvent) {
+    if (this.ended) return;
+    this.received += 1;
+    const reader = this._readers.shift();
+    if (reader) {
+      reader({ value: msg, done: false });
+    } else {
+      this._queue.push(msg);
+    }
+    if (this.max > 0 && this.received >= this.max) {
+      this.stop('max');
+    } else {
+      this._armIdle();
+    }
+  }
+
+  /**
+   * Stop collecting. Messages already queued are still yielded.
+   */
+  stop(reason: MessageCollectorEndReason = 'stop') {
+    if (this.ended) return;
+    this.endReason = reason;
+    if (this._idleTimer) {
+      clearTimeout(this._idleTimer);
+      this._idleTimer = null;
+    }
+    for (const reader of this._readers.splice(0)) {
+      reader({ value: undefined, done: true });
+    }
+    this._onEnd();
+  }
+
+  next(): Promise<IteratorResult<MessageEvent>> {
+    if (this._queue.length > 0) {
+      return Promise.resolve({ value: this._queue.shift(), done: false });
+    }
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve) => this._readers.push(resolve));
+  }
+
+  return(): Promise<IteratorResult<MessageEvent>> {
+    this._queue = [];
+    this.stop();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  _armIdle() {
+    if (!this.idle || this.idle <= 0) return;
+    if (this._idleTimer) clearTimeout(this._idleTimer);
+    this._idleTimer = setTimeout(() => this.stop('idle'), this.idle);
+  }
+}
@@ -17,6 +17,8 @@ import {
   buildReplyAttachment,
   normalizeLogTarget,
   normalizeEditTarget,
+  normalizeIdValue,
+  safeNumber,
 } from '../utils';
 
 import type { KakaoForgeClient } from './client';
@@ -51,6 +53,7 @@ export interface MessageMixin {
     text: string,
     opts?: EditMessageOptions
   ): Promise<any>;
+  markRead(chatId: number | string, logId?: number | string | MessageEvent): Promise<any>;
 }
 
 /**
@@ -125,17 +128,24 @@ async function sendMessage(
     }
   }
 
+  const resolvedChatId = this._resolveChatId(chatId);
+  if (this.outbox) {
+    // Queued even while offline; sent once the connection is back
+    return await this.outbox.enqueue({ chatId: resolvedChatId, text: messageText, type: msgType, opts: writeOpts });
+  }
+
   if (!this._carriage) {
     throw new Error('LOCO not connected. Call client.connect() first.');
   }
 
-  const resolvedChatId = this._resolveChatId(chatId);
-  return await this._enqueueSend(() => {
+  const res = await this._scheduleSend(() => {
     if (!this._carriage) {
       throw new Error('LOCO not connected. Call client.connect() first.');
     }
     return this._carriage.write(resolvedChatId, messageText, msgType, writeOpts);
-  });
+  }, { chatId: resolvedChatId, priority: opts.priority });
+  this._advanceRoomLog(resolvedChatId, safeNumber(res?.body?.logId || 0, 0), true);
+  return res;
 }
 
 async function sendText(
@@ -216,7 +226,10 @@ async function deleteMessage(this: KakaoForgeClient, chatId: number | string, ta
   }
 
   const resolvedChatId = this._resolveChatId(chatId);
-  return await this._carriage.deleteMsg(resolvedChatId, logId);
+  return await this._scheduleSend(
+    () => this._carriage.deleteMsg(resolvedChatId, logId),
+    { chatId: resolvedChatId, priority: 'high' }
+  );
 }
 
 /**
@@ -260,11 +273,39 @@ async function editMessage(
     extra = '{}';
   }
   const resolvedChatId = this._resolveChatId(chatId);
-  return await this._carriage.modifyMsg(resolvedChatId, normalized.logId, text, {
+  return await this._scheduleSend(() => this._carriage.modifyMsg(resolvedChatId, normalized.logId, text, {
     type,
     extra,
     supplement: opts.supplement,
-  });
+  }), { chatId: resolvedChatId });
+}
+
+/**
+ * Mark a room read up to logId (NOTIREAD), by default up to the latest message the client has seen.
+ * Resolves null without sending when the room is already read that far.
+ */
+async function markRead(this: KakaoForgeClient, chatId: number | string, logId?: number | string | MessageEvent) {
+  if (!this._carriage) {
+    throw new Error('LOCO not connected. Call client.connect() first.');
+  }
+
+  const resolvedChatId = this._resolveChatId(chatId);
+  const room = this._chatRooms.get(String(resolvedChatId)) || {};
+  const watermark = logId !== undefined && logId !== null
+    ? normalizeLogTarget(logId)
+    : Math.max(safeNumber(room.lastLogId || 0, 0), safeNumber(room.lastChatLogId || 0, 0));
+  const watermarkNumeric = safeNumber(watermark, 0);
+  if (!watermarkNumeric || watermarkNumeric <= safeNumber(room.lastSeenLogId || 0, 0)) {
+    return null;
+  }
+
+  const linkId = room.isOpenChat ? normalizeIdValue(room.openLinkId || room.li || 0) : 0;
+  const res = await this._scheduleSend(
+    () => this._carriage.notiRead(resolvedChatId, watermark, linkId || undefined),
+    { chatId: resolvedChatId, priority: 'low' }
+  );
+  this._markRoomSeen(resolvedChatId, watermarkNumeric);
+  return res;
 }
 
 /**
@@ -277,4 +318,5 @@ export function applyMessageMixin(ClientClass: typeof KakaoForgeClient) {
   ClientClass.prototype.sendThreadReply = sendThreadReply;
   ClientClass.prototype.deleteMessage = deleteMessage;
   ClientClass.prototype.editMessage = editMessage;
+  ClientClass.prototype.markRead = markRead;
 }
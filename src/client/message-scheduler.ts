@@ -0,0 +1,332 @@
+import { normalizeIdValue } from '../utils/helpers';
+import { parseCron, nextCronTime, parseScheduleTime } from '../utils/cron';
+import { toPlainState } from '../state/state-store';
+import {
+  type ScheduleRecord,
+  type ScheduleStore,
+  type ScheduleRunEvent,
+  type ScheduleErrorEvent,
+} from '../state/schedule-store';
+import { type ScheduleOptions, type ScheduledMessage, type ScheduleCatchUp } from '../types';
+import type { KakaoForgeClient } from './client';
+
+type ScheduleBuilder = () => ScheduledMessage | Promise<ScheduledMessage>;
+
+// setTimeout overflows past ~24.8 days, so long waits are re-armed daily
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+export type MessageSchedulerOptions = {
+  catchUp?: ScheduleCatchUp;
+  missedGraceMs?: number;
+  maxCatchUp?: number;
+};
+
+/**
+ * One-off and cron messages. Runs are sent through the normal send path (scheduler and outbox),
+ * only while connected; anything due during downtime is handled by the catch-up policy on the next 'ready'.
+ */
+export class MessageScheduler {
+  client: KakaoForgeClient;
+  store: ScheduleStore;
+  catchUp: ScheduleCatchUp;
+  missedGraceMs: number;
+  maxCatchUp: number;
+  _records: Map<string, ScheduleRecord>;
+  _builders: Map<string, ScheduleBuilder>;
+  _loading: Promise<number> | null;
+  _running: Promise<void> | null;
+  _runAgain: boolean;
+  _timer: NodeJS.Timeout | null;
+  _saveChain: Promise<void>;
+  _seq: number;
+
+  constructor(
+    client: KakaoForgeClient,
+    store: ScheduleStore,
+    { catchUp = 'once', missedGraceMs = 60000, maxCatchUp = 10 }: MessageSchedulerOptions = {}
+  ) {
+    this.client = client;
+    this.store = store;
+    this.catchUp = catchUp;
+    this.missedGraceMs = missedGraceMs;
+    this.maxCatchUp = maxCatchUp;
+    this._records = new Map();
+    this._builders = new Map();
+    this._loading = null;
+    this._running = null;
+    this._runAgain = false;
+    this._timer = null;
+    this._saveChain = Promise.resolve();
+    this._seq = 0;
+  }
+
+  /**
+   * Restore persisted schedules (once per client).
+   */
+  load() {
+    if (!this._loading) {
+      this._loading = this._load();
+    }
+    return this._loading;
+  }
+
+  async _load() {
+    let records: ScheduleRecord[] = [];
+    try {
+      records = await this.store.load();
+    } catch (err) {
+      console.warn(`[!] Schedule load failed: ${err.message}`);
+      return 0;
+    }
+    let restored = 0;
+    for (const record of records) {
+      if (!record?.id || this._records.has(record.id)) continue;
+      this._records.set(record.id, record);
+      restored += 1;
+    }
+    if (restored > 0) {
+      console.log(`[+] Restored ${restored} schedule(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Add or replace a schedule. Re-adding an id with the same timing keeps its next run,
+   * so runs missed while the process was down are still caught up.
+   */
+  async add(opts: ScheduleOptions) {
+    await this.load();
+    if (!opts || opts.chatId === undefined || opts.chatId === null) {
+      throw new Error('schedule requires chatId');
+    }
+    if ((opts.at === undefined) === !opts.cron) {
+      throw new Error('schedule requires either at or cron');
+    }
+    if (!opts.message && typeof opts.build !== 'function') {
+      throw new Error('schedule requires message or build');
+    }
+
+    const now = Date.now();
+    const timeZone = opts.timeZone || this.client.timeZone;
+    const at = opts.at !== undefined ? parseScheduleTime(opts.at, timeZone) : undefined;
+    const cron = opts.cron ? opts.cron.trim() : undefined;
+    if (cron) parseCron(cron);
+    const chatId = normalizeIdValue(this.client._resolveChatId(opts.chatId));
+    const id = opts.id ? String(opts.id) : `schedule-${now.toString(36)}-${(this._seq += 1)}`;
+
+    const prev = this._records.get(id);
+    const sameTiming = !!prev
+      && prev.at === at
+      && prev.cron === cron
+      && prev.timeZone === timeZone
+      && String(prev.chatId) === String(chatId);
+    if (!sameTiming && at !== undefined && at < now - this.missedGraceMs) {
+      throw new Error(`Schedule time is in the past: ${new Date(at).toISOString()}`);
+    }
+
+    const record: ScheduleRecord = {
+      id,
+      chatId,
+      at,
+      cron,
+      timeZone,
+      catchUp: opts.catchUp,
+      message: opts.message ? toPlainState(opts.message) : undefined,
+      nextRunAt: sameTiming ? prev.nextRunAt : (at ?? nextCronTime(cron, now, timeZone) ?? 0),
+      lastRunAt: sameTiming ? prev.lastRunAt : 0,
+      runs: sameTiming ? prev.runs : 0,
+      createdAt: prev?.createdAt ?? now,
+    };
+    if (!record.nextRunAt) {
+      throw new Error(`Cron expression never fires: ${cron}`);
+    }
+
+    this._records.set(id, record);
+    if (typeof opts.build === 'function') {
+      this._builders.set(id, opts.build);
+    } else {
+      this._builders.delete(id);
+    }
+    await this._save().catch(() => {});
+    void this.tick();
+    return { ...record };
+  }
+
+  async cancel(id: string) {
+    await this.load();
+    const key = String(id);
+    this._builders.delete(key);
+    if (!this._records.delete(key)) return false;
+    await this._save().catch(() => {});
+    this._arm();
+    return true;
+  }
+
+  get(id: string) {
+    const record = this._records.get(String(id));
+    return record ? { ...record } : null;
+  }
+
+  list(): ScheduleRecord[] {
+    return [...this._records.values()]
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)
+      .map((record) => ({ ...record }));
+  }
+
+  /**
+   * Run everything that is due. One pass at a time; a call during a pass schedules another.
+   */
+  tick(): Promise<void> {
+    if (this._running) {
+      this._runAgain = true;
+      return this._running;
+    }
+    this._running = this._runDue().finally(() => {
+      this._running = null;
+      if (this._runAgain) {
+        this._runAgain = false;
+        void this.tick();
+      } else {
+        this._arm();
+      }
+    });
+    return this._running;
+  }
+
+  stop() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+
+  async _runDue() {
+    if (!this.client.connected) return;
+    const now = Date.now();
+    const due = [...this._records.values()]
+      .filter((record) => this._isActive(record) && record.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+    if (due.length === 0) return;
+
+    const runs: Array<{ record: ScheduleRecord; dueAt: number; missed: boolean; builder?: ScheduleBuilder }> = [];
+    for (const record of due) {
+      // Taken now: a finished one-off schedule drops its builder below
+      const builder = this._builders.get(record.id);
+      if (now - record.nextRunAt <= this.missedGraceMs) {
+        runs.push({ record, dueAt: record.nextRunAt, missed: false, builder });
+      } else {
+        const policy = record.catchUp || this.catchUp;
+        const missed = this._missedRuns(record, now, policy === 'all' ? this.maxCatchUp : (policy === 'once' ? 1 : 0));
+        if (this.client.debug) {
+          console.error(`[DBG] schedule ${record.id} missed run(s) since ${new Date(record.nextRunAt).toISOString()}, catchUp=${policy}`);
+        }
+        for (const dueAt of missed) {
+          runs.push({ record, dueAt, missed: true, builder });
+        }
+      }
+
+      record.nextRunAt = record.cron ? (nextCronTime(record.cron, now, record.timeZone) ?? 0) : 0;
+      if (!record.nextRunAt) {
+        this._records.delete(record.id);
+        this._builders.delete(record.id);
+      }
+    }
+    for (const run of runs) {
+      run.record.runs += 1;
+      run.record.lastRunAt = now;
+    }
+    await this._save().catch(() => {});
+
+    for (const { record, dueAt, missed, builder } of runs) {
+      void this._fire({ ...record }, dueAt, missed, builder);
+    }
+  }
+
+  /**
+   * Up to `limit` occurrences from nextRunAt to now, oldest first.
+   */
+  _missedRuns(record: ScheduleRecord, now: number, limit: number) {
+    const times: number[] = [];
+    let dueAt = record.nextRunAt;
+    while (dueAt && dueAt <= now && times.length < limit) {
+      times.push(dueAt);
+      dueAt = record.cron ? (nextCronTime(record.cron, dueAt, record.timeZone) ?? 0) : 0;
+    }
+    return times;
+  }
+
+  async _fire(record: ScheduleRecord, dueAt: number, missed: boolean, builder?: ScheduleBuilder) {
+    try {
+      const message = builder ? await builder() : record.message;
+      const result = await this._send(record.chatId, message || {});
+      const event: ScheduleRunEvent = { schedule: record, dueAt, missed, result };
+      this.client.emit('scheduleRun', event);
+    } catch (err) {
+      const event: ScheduleErrorEvent = { schedule: record, dueAt, error: err };
+      if (this.client.listenerCount('scheduleError') > 0) {
+        this.client.emit('scheduleError', event);
+      } else {
+        console.warn(`[!] Schedule ${record.id} failed: ${err.message}`);
+      }
+    }
+  }
+
+  _send(chatId: number | string, message: ScheduledMessage) {
+    const { kind = 'text', attachment, ...opts } = message;
+    const client = this.client;
+    switch (kind) {
+      case 'text':
+        return client.sendMessage(chatId, opts.text || '', opts);
+      case 'photo':
+        return client.sendPhoto(chatId, attachment, opts);
+      case 'video':
+        return client.sendVideo(chatId, attachment, opts);
+      case 'audio':
+        return client.sendAudio(chatId, attachment, opts);
+      case 'file':
+        return client.sendFile(chatId, attachment, opts);
+      case 'contact':
+        return client.sendContact(chatId, attachment, opts);
+      case 'kakaoProfile':
+        return client.sendKakaoProfile(chatId, attachment, opts);
+      case 'location':
+        return client.sendLocation(chatId, attachment, opts);
+      case 'schedule':
+        return client.sendSchedule(chatId, attachment, opts);
+      case 'link':
+        return client.sendLink(chatId, attachment, opts);
+      default:
+        throw new Error(`Unknown scheduled message kind: ${kind}`);
+    }
+  }
+
+  // A restored schedule without a stored message waits until its builder is registered again
+  _isActive(record: ScheduleRecord) {
+    return record.nextRunAt > 0 && (!!record.message || this._builders.has(record.id));
+  }
+
+  _arm() {
+    this.stop();
+    if (!this.client.connected) return;
+    let next = Infinity;
+    for (const record of this._records.values()) {
+      if (this._isActive(record)) next = Math.min(next, record.nextRunAt);
+    }
+    if (next === Infinity) return;
+    const delay = Math.min(MAX_TIMER_MS, Math.max(0, next - Date.now()));
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      void this.tick();
+    }, delay);
+  }
+
+  _save() {
+    const task = this._saveChain
+      .catch(() => {})
+      .then(() => this.store.save([...this._records.values()]));
+    this._saveChain = task.catch((err) => {
+      console.warn(`[!] Schedule save failed: ${err.message}`);
+    });
+    return task;
+  }
+}
@@ -1,8 +1,12 @@
+import { Long } from 'bson';
 import {
   type ReactionTypeValue,
   type ReactionOptions,
+  type ReactionSummary,
   type OpenChatKickOptions,
   type OpenChatBlindOptions,
+  type OpenLinkInfo,
+  type JoinOpenChatOptions,
 } from '../types';
 import {
   normalizeIdValue,
@@ -11,7 +15,12 @@ import {
   normalizeOpenChatBlindTarget,
   normalizeLogTarget,
   assertBubbleOk,
+  parseReactionSummary,
+  normalizeOpenLinkUrl,
+  parseOpenLinkInfo,
+  resolveRoomFlags,
 } from '../utils';
+import { Room } from '../models/room';
 import type { ReactionPayload } from '../net/bubble-client';
 import type { KakaoForgeClient } from './client';
 
@@ -25,6 +34,11 @@ export interface OpenChatMixin {
     reactionType: ReactionTypeValue,
     opts?: ReactionOptions
   ): Promise<any>;
+  getReactions(
+    chatId: number | string,
+    target: any,
+    opts?: Pick<ReactionOptions, 'linkId'>
+  ): Promise<ReactionSummary>;
   openChatKick(
     chatId: number | string,
     target: any,
@@ -35,6 +49,9 @@ export interface OpenChatMixin {
     target: any,
     opts?: OpenChatBlindOptions
   ): Promise<any>;
+  resolveOpenLink(url: string, opts?: Pick<JoinOpenChatOptions, 'passcode'>): Promise<OpenLinkInfo>;
+  joinOpenChat(target: number | string | OpenLinkInfo, opts?: JoinOpenChatOptions): Promise<Room>;
+  leaveOpenChat(chatId: number | string): Promise<any>;
 }
 
 async function sendReaction(
@@ -56,6 +73,30 @@ async function sendReaction(
     throw new Error('reactionType must be a number');
   }
 
+  const linkIdValue = await resolveReactionLinkId(this, resolvedChatId, targetInfo, opts);
+
+  const bubble = this._getBubbleClient();
+  const payload: ReactionPayload = {
+    logId: logIdValue,
+    type: typeValue,
+    reqId: opts.reqId ?? Date.now(),
+  };
+  if (linkIdValue && linkIdValue !== 0 && linkIdValue !== '0') {
+    payload.linkId = linkIdValue;
+  }
+
+  const res = await bubble.sendReaction(resolvedChatId, payload);
+  assertBubbleOk(res, '공감 전송');
+  return res;
+}
+
+// Open chat reactions are keyed on the room's openLinkId as well as the chat
+async function resolveReactionLinkId(
+  client: KakaoForgeClient,
+  resolvedChatId: number | string,
+  targetInfo: { linkId?: number | string; isOpenChat?: boolean } | null,
+  opts: Pick<ReactionOptions, 'linkId'>
+) {
   let linkIdValue: number | string | undefined;
   if (opts.linkId !== undefined && opts.linkId !== null && opts.linkId !== '') {
     linkIdValue = normalizeIdValue(opts.linkId);
@@ -64,7 +105,7 @@ async function sendReaction(
   }
 
   const roomKey = String(resolvedChatId);
-  const roomInfo = this._chatRooms.get(roomKey);
+  const roomInfo = client._chatRooms.get(roomKey);
   const isOpenChat = targetInfo?.isOpenChat ?? roomInfo?.isOpenChat ?? false;
 
   if (!linkIdValue && roomInfo?.openLinkId) {
@@ -72,8 +113,8 @@ async function sendReaction(
   }
 
   if (!linkIdValue && isOpenChat) {
-    await this._ensureOpenChatInfo(resolvedChatId);
-    const refreshed = this._chatRooms.get(roomKey);
+    await client._ensureOpenChatInfo(resolvedChatId);
+    const refreshed = client._chatRooms.get(roomKey);
     if (refreshed?.openLinkId) {
       linkIdValue = normalizeIdValue(refreshed.openLinkId);
     }
@@ -82,20 +123,40 @@ async function sendReaction(
   if (isOpenChat && (!linkIdValue || linkIdValue === 0 || linkIdValue === '0')) {
     throw new Error('open chat reaction requires openLinkId');
   }
+  return linkIdValue;
+}
 
+/**
+ * Current reaction counts and reactors for a message (bubble API).
+ */
+async function getReactions(
+  this: KakaoForgeClient,
+  chatId: number | string,
+  target: any,
+  opts: Pick<ReactionOptions, 'linkId'> = {}
+): Promise<ReactionSummary> {
+  const resolvedChatId = this._resolveChatId(chatId);
+  const targetInfo = target && typeof target === 'object' && !Long.isLong(target)
+    ? normalizeReactionTarget(target)
+    : { logId: normalizeLogTarget(target) };
+  const logIdValue = normalizeIdValue(targetInfo?.logId ?? 0);
+  if (!logIdValue || logIdValue === 0 || logIdValue === '0') {
+    throw new Error('reaction target requires logId');
+  }
+
+  const linkIdValue = await resolveReactionLinkId(this, resolvedChatId, targetInfo, opts);
   const bubble = this._getBubbleClient();
-  const payload: ReactionPayload = {
+  const res = await bubble.getReactions(resolvedChatId, {
     logId: logIdValue,
-    type: typeValue,
-    reqId: opts.reqId ?? Date.now(),
-  };
-  if (linkIdValue && linkIdValue !== 0 && linkIdValue !== '0') {
-    payload.linkId = linkIdValue;
-  }
+    linkId: linkIdValue && linkIdValue !== 0 && linkIdValue !== '0' ? linkIdValue : undefined,
+  });
+  assertBubbleOk(res, '공감 조회');
 
-  const res = await bubble.sendReaction(resolvedChatId, payload);
-  assertBubbleOk(res, '공감 전송');
-  return res;
+  const summary = parseReactionSummary(res?.body, logIdValue, this.userId || undefined);
+  for (const reactor of summary.reactors) {
+    reactor.name = this._getCachedMemberName(resolvedChatId, reactor.userId) || reactor.name || String(reactor.userId);
+  }
+  return summary;
 }
 
 async function openChatKick(
@@ -104,7 +165,7 @@ async function openChatKick(
   target: any,
   opts: OpenChatKickOptions = {}
 ) {
-  if (!this._carriage) throw new Error('LOCO not connected');
+  this._requireCarriage();
   const resolvedChatId = this._resolveChatId(chatId);
   const targetInfo = normalizeOpenChatMemberTarget(target);
   if (!targetInfo?.memberId) {
@@ -138,12 +199,12 @@ async function openChatKick(
     throw new Error('open chat kick requires openLinkId');
   }
 
-  return await this._carriage.kickMem({
+  return await this._scheduleSend(() => this._carriage.kickMem({
     linkId: linkIdValue,
     chatId: resolvedChatId,
     memberId: normalizeIdValue(targetInfo.memberId),
     reported: !!opts.report,
-  });
+  }), { chatId: resolvedChatId, priority: 'high' });
 }
 
 async function openChatBlind(
@@ -152,7 +213,7 @@ async function openChatBlind(
   target: any,
   opts: OpenChatBlindOptions = {}
 ) {
-  if (!this._carriage) throw new Error('LOCO not connected');
+  this._requireCarriage();
   const resolvedChatId = this._resolveChatId(chatId);
   const logIdValue = normalizeLogTarget(target);
   let targetInfo = normalizeOpenChatBlindTarget(target);
@@ -209,14 +270,104 @@ async function openChatBlind(
     throw new Error('open chat blind requires chatLogInfo');
   }
 
-  return await this._carriage.blind({
+  return await this._scheduleSend(() => this._carriage.blind({
     linkId: linkIdValue,
     chatId: resolvedChatId,
     memberId: memberIdValue,
     report: !!opts.report,
     chatLogInfo,
     category: opts.category,
+  }), { chatId: resolvedChatId, priority: 'high' });
+}
+
+/**
+ * Resolve an `open.kakao.com/o/...` URL to its linkId and metadata (JOININFO).
+ */
+async function resolveOpenLink(
+  this: KakaoForgeClient,
+  url: string,
+  opts: Pick<JoinOpenChatOptions, 'passcode'> = {}
+) {
+  const carriage = this._requireCarriage();
+  const linkUrl = normalizeOpenLinkUrl(url);
+  if (!linkUrl) {
+    throw new Error(`not an open chat link: ${url}`);
+  }
+  const res = await carriage.joinInfo(linkUrl, opts.passcode);
+  const info = parseOpenLinkInfo(res?.body?.ol, linkUrl);
+  if (!info) {
+    throw new Error('JOININFO response has no open link');
+  }
+  if (info.name) {
+    this._openLinkInfoCache.set(String(info.linkId), { name: info.name });
+  }
+  return info;
+}
+
+/**
+ * Join an open chat by linkId, link URL or resolveOpenLink() result (JOINLINK).
+ * Joins with the main profile unless `profile` gives an anonymous nickname.
+ */
+async function joinOpenChat(
+  this: KakaoForgeClient,
+  target: number | string | OpenLinkInfo,
+  opts: JoinOpenChatOptions = {}
+) {
+  const carriage = this._requireCarriage();
+  let info: OpenLinkInfo | null = null;
+  if (target && typeof target === 'object' && !Long.isLong(target)) {
+    info = target;
+  } else if (typeof target === 'string' && normalizeOpenLinkUrl(target)) {
+    info = await this.resolveOpenLink(target, { passcode: opts.passcode });
+  }
+  const linkIdValue = normalizeIdValue(info ? info.linkId : target);
+  if (!linkIdValue || linkIdValue === '0') {
+    throw new Error('joinOpenChat requires linkId or open chat URL');
+  }
+
+  const nickname = opts.profile ? String(opts.profile.nickname || '').trim() : '';
+  if (opts.profile && !nickname) {
+    throw new Error('joinOpenChat profile requires nickname');
+  }
+  const res = await carriage.joinLink({
+    linkId: linkIdValue,
+    openToken: info?.openToken,
+    profileType: nickname ? 2 : 1,
+    nickname: nickname || undefined,
+    profileImage: opts.profile?.profileImageUrl,
+    passcode: opts.passcode,
   });
+
+  const body = res?.body || {};
+  const chatRoom = body.chatRoom || {};
+  const chatIdValue = normalizeIdValue(chatRoom.chatId || chatRoom.c || body.chatId || 0);
+  if (!chatIdValue) {
+    throw new Error('JOINLINK response has no chatRoom');
+  }
+  const name = info?.name || parseOpenLinkInfo(body.ol)?.name || '';
+  if (name) {
+    this._openLinkInfoCache.set(String(linkIdValue), { name });
+  }
+  this._updateChatRooms([{
+    ...chatRoom,
+    type: chatRoom.type || chatRoom.t || 'OM',
+    chatId: chatIdValue,
+    openLinkId: linkIdValue,
+  }]);
+  await this._ensureOpenChatInfo(chatIdValue);
+  return new Room(this, chatIdValue);
+}
+
+/**
+ * Leave an open chat: leaveChat() after checking the room really is one.
+ */
+async function leaveOpenChat(this: KakaoForgeClient, chatId: number | string) {
+  const resolvedChatId = this._resolveChatId(chatId);
+  const roomInfo = this._chatRooms.get(String(resolvedChatId));
+  if (roomInfo && !resolveRoomFlags(roomInfo).isOpenChat) {
+    throw new Error('leaveOpenChat only works in open chats; use leaveChat');
+  }
+  return await this.leaveChat(resolvedChatId);
 }
 
 /**
@@ -224,6 +375,10 @@ async function openChatBlind(
  */
 export function applyOpenChatMixin(ClientClass: typeof KakaoForgeClient) {
   ClientClass.prototype.sendReaction = sendReaction;
+  ClientClass.prototype.getReactions = getReactions;
   ClientClass.prototype.openChatKick = openChatKick;
   ClientClass.prototype.openChatBlind = openChatBlind;
+  ClientClass.prototype.resolveOpenLink = resolveOpenLink;
+  ClientClass.prototype.joinOpenChat = joinOpenChat;
+  ClientClass.prototype.leaveOpenChat = leaveOpenChat;
 }
@@ -0,0 +1,324 @@
+import { LocoStatusError } from '../protocol/loco-status';
+import { normalizeIdValue, safeNumber } from '../utils/helpers';
+import { toPlainState } from '../state/state-store';
+import {
+  type OutboxItem,
+  type OutboxStore,
+  type OutboxSentEvent,
+  type OutboxFailedEvent,
+} from '../state/outbox-store';
+import type { KakaoForgeClient } from './client';
+
+type OutboxPending = {
+  promise: Promise<any>;
+  resolve: (res: any) => void;
+  reject: (err: Error) => void;
+};
+
+export type OutboxOptions = {
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+};
+
+/**
+ * Persistent queue in front of WRITE. An item keeps its msgId until the server confirms it,
+ * either with the WRITE response or by echoing the msgId back in a chat log.
+ * Items of one room go out in order; a room waiting on a retry holds its later items back.
+ */
+export class Outbox {
+  client: KakaoForgeClient;
+  store: OutboxStore;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  _items: Map<string, OutboxItem>;
+  _pending: Map<string, OutboxPending>;
+  _loaded: boolean;
+  _flushing: Promise<void> | null;
+  _flushAgain: boolean;
+  _timer: NodeJS.Timeout | null;
+  _saveChain: Promise<void>;
+
+  constructor(
+    client: KakaoForgeClient,
+    store: OutboxStore,
+    { maxAttempts = 5, retryBaseMs = 2000, retryMaxMs = 60000 }: OutboxOptions = {}
+  ) {
+    this.client = client;
+    this.store = store;
+    this.maxAttempts = Math.max(1, maxAttempts);
+    this.retryBaseMs = retryBaseMs;
+    this.retryMaxMs = retryMaxMs;
+    this._items = new Map();
+    this._pending = new Map();
+    this._loaded = false;
+    this._flushing = null;
+    this._flushAgain = false;
+    this._timer = null;
+    this._saveChain = Promise.resolve();
+  }
+
+  get size() {
+    return this._items.size;
+  }
+
+  /**
+   * Unsent items, oldest first.
+   */
+  list(): OutboxItem[] {
+    return [...this._items.values()].map((item) => ({ ...item }));
+  }
+
+  /**
+   * Restore items left over from a previous run (once per client).
+   */
+  async load() {
+    if (this._loaded) return 0;
+    this._loaded = true;
+
+    let items: OutboxItem[] = [];
+    try {
+      items = await this.store.load();
+    } catch (err) {
+      console.warn(`[!] Outbox load failed: ${err.message}`);
+      return 0;
+    }
+    let restored = 0;
+    for (const item of items) {
+      if (!item?.id || this._items.has(item.id)) continue;
+      this._items.set(item.id, item);
+      restored += 1;
+    }
+    if (restored > 0) {
+      console.log(`[+] Outbox restored ${restored} unsent message(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Queue a WRITE and resolve with its response once the server confirms it.
+   * Queuing the same msgId twice returns the promise of the first item.
+   */
+  async enqueue({ chatId, text, type, opts }: { chatId: number | string; text: string; type: number; opts: Record<string, any> }) {
+    const plainOpts = toPlainState(opts);
+    const id = String(plainOpts.msgId);
+    const existing = this._pending.get(id);
+    if (existing) return existing.promise;
+
+    const pending = this._track(id);
+    if (!this._items.has(id)) {
+      const now = Date.now();
+      this._items.set(id, {
+        id,
+        msgId: plainOpts.msgId,
+        chatId: normalizeIdValue(chatId),
+        text,
+        type,
+        opts: plainOpts,
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      });
+      // On disk before the first WRITE, so a crash mid-send leaves it to the next run
+      await this._save().catch(() => {});
+    }
+    void this.flush();
+    return pending.promise;
+  }
+
+  /**
+   * Drop an unsent item. Its pending send rejects.
+   */
+  cancel(id: number | string) {
+    const key = String(id);
+    if (!this._items.delete(key)) return false;
+    void this._save().catch(() => {});
+    this._reject(key, new Error(`Outbox item ${key} cancelled`));
+    return true;
+  }
+
+  /**
+   * Send every item that is due. Runs one pass at a time; a call during a pass schedules another.
+   */
+  flush(): Promise<void> {
+    if (this._flushing) {
+      this._flushAgain = true;
+      return this._flushing;
+    }
+    this._flushing = this._drain().finally(() => {
+      this._flushing = null;
+      if (this._flushAgain) {
+        this._flushAgain = false;
+        void this.flush();
+      } else {
+        this._arm();
+      }
+    });
+    return this._flushing;
+  }
+
+  /**
+   * Settle the item whose msgId the server echoed back in one of our own chat logs.
+   */
+  ack(chatId: number | string, chatLog: any) {
+    if (this._items.size === 0 || !chatLog) return false;
+    const msgId = normalizeIdValue(chatLog.msgId || 0);
+    if (!msgId || !this._items.has(String(msgId))) return false;
+    const authorId = normalizeIdValue(chatLog.authorId || chatLog.userId || 0);
+    if (String(authorId) !== String(this.client.userId)) return false;
+
+    const logId = normalizeIdValue(chatLog.logId || 0);
+    const response = { status: 0, packetId: 0, body: { chatId, logId, msgId, chatLog } };
+    this._settle(String(msgId), logId, true, response);
+    return true;
+  }
+
+  /**
+   * Stop retry timers and reject waiting callers. Items stay queued for the next connect.
+   */
+  close(err: Error) {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    for (const id of [...this._pending.keys()]) {
+      this._reject(id, err);
+    }
+  }
+
+  async _drain() {
+    while (this.client.connected) {
+      const item = this._nextDue();
+      if (!item) return;
+      await this._send(item);
+    }
+  }
+
+  _nextDue() {
+    const now = Date.now();
+    const blocked = new Set<string>();
+    for (const item of this._items.values()) {
+      const chatKey = String(item.chatId);
+      if (blocked.has(chatKey)) continue;
+      if (item.nextAttemptAt <= now) return item;
+      blocked.add(chatKey);
+    }
+    return null;
+  }
+
+  async _send(item: OutboxItem) {
+    item.attempts += 1;
+    try {
+      const res = await this.client._scheduleSend(() => {
+        if (!this.client._carriage) {
+          throw new Error('LOCO not connected');
+        }
+        return this.client._carriage.write(item.chatId, item.text, item.type, item.opts);
+      }, { chatId: item.chatId, priority: item.opts.priority });
+      this.client._advanceRoomLog(item.chatId, safeNumber(res.body.logId || 0, 0), true);
+      this._settle(item.id, normalizeIdValue(res.body.logId), false, res);
+    } catch (err) {
+      this._retryOrFail(item, err);
+    }
+  }
+
+  _retryOrFail(item: OutboxItem, err: any) {
+    if (!this._items.has(item.id)) return;
+    item.lastError = err.message;
+
+    const statusError = err instanceof LocoStatusError;
+    if (!statusError && !this.client.connected) {
+      // The socket went away: wait for the next 'ready' without spending an attempt
+      item.attempts -= 1;
+    } else if ((statusError && !err.retryable) || item.attempts >= this.maxAttempts) {
+      this._fail(item, err);
+      return;
+    } else {
+      item.nextAttemptAt = Date.now() + this._backoff(item.attempts);
+    }
+    if (this.client.debug) {
+      console.error(`[DBG] outbox msgId ${item.id} attempt ${item.attempts} failed: ${err.message}`);
+    }
+    void this._save().catch(() => {});
+  }
+
+  _backoff(attempt: number) {
+    return Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** Math.max(0, attempt - 1));
+  }
+
+  _settle(id: string, logId: number | string, echoed: boolean, response: any) {
+    const item = this._items.get(id);
+    if (!item) return;
+    this._items.delete(id);
+    void this._save().catch(() => {});
+
+    const event: OutboxSentEvent = { item, logId, echoed, response };
+    this.client.emit('outboxSent', event);
+    const pending = this._pending.get(id);
+    if (pending) {
+      this._pending.delete(id);
+      pending.resolve(response);
+    }
+  }
+
+  _fail(item: OutboxItem, error: Error) {
+    this._items.delete(item.id);
+    void this._save().catch(() => {});
+
+    if (this.client.listenerCount('outboxFailed') === 0 && !this._pending.has(item.id)) {
+      console.warn(`[!] Outbox dropped msgId ${item.id} after ${item.attempts} attempt(s): ${error.message}`);
+    }
+    const event: OutboxFailedEvent = { item, error };
+    this.client.emit('outboxFailed', event);
+    this._reject(item.id, error);
+  }
+
+  _track(id: string) {
+    let resolve: (res: any) => void = () => {};
+    let reject: (err: Error) => void = () => {};
+    const promise = new Promise<any>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const pending = { promise, resolve, reject };
+    this._pending.set(id, pending);
+    return pending;
+  }
+
+  _reject(id: string, err: Error) {
+    const pending = this._pending.get(id);
+    if (!pending) return;
+    this._pending.delete(id);
+    pending.reject(err);
+  }
+
+  _arm() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    if (this._items.size === 0 || !this.client.connected) return;
+    // Only the first item of each room can be due; the rest wait behind it
+    const heads = new Map<string, number>();
+    for (const item of this._items.values()) {
+      const chatKey = String(item.chatId);
+      if (!heads.has(chatKey)) heads.set(chatKey, item.nextAttemptAt);
+    }
+    const next = Math.min(...heads.values());
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      void this.flush();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  _save() {
+    const task = this._saveChain
+      .catch(() => {})
+      .then(() => this.store.save(this.list()));
+    this._saveChain = task.catch((err) => {
+      console.warn(`[!] Outbox save failed: ${err.message}`);
+    });
+    return task;
+  }
+}
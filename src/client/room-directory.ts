@@ -0,0 +1,35 @@
+import { Room } from '../models/room';
+import type { KakaoForgeClient } from './client';
+
+/**
+ * Public view of the rooms the client knows about (from LOGINLIST/LCHATLIST, CHATINFO and incoming messages).
+ */
+export class RoomDirectory {
+  client: KakaoForgeClient;
+
+  constructor(client: KakaoForgeClient) {
+    this.client = client;
+  }
+
+  get size() {
+    return this.client._chatRooms.size;
+  }
+
+  get(chatId: number | string) {
+    const id = this.client._resolveChatId(chatId);
+    return this.client._chatRooms.has(String(id)) ? new Room(this.client, id) : null;
+  }
+
+  list(): Room[] {
+    return [...this.client._chatRooms.keys()].map((key) => new Room(this.client, this.client._resolveChatId(key)));
+  }
+
+  /**
+   * First room whose title equals `name` (or matches it, for a RegExp).
+   */
+  find(name: string | RegExp) {
+    return this.list().find((room) => (
+      typeof name === 'string' ? room.title === name : name.test(room.title)
+    )) || null;
+  }
+}
@@ -0,0 +1,251 @@
+import { LocoStatusError } from '../protocol/loco-status';
+import {
+  type SendKind,
+  type SendPriority,
+  type SendRateLimit,
+  type SendThrottleEvent,
+} from '../types';
+
+const PRIORITIES: SendPriority[] = ['high', 'normal', 'low'];
+const MAX_SLOWDOWN_LEVEL = 3;
+
+export const DEFAULT_SEND_RATE_LIMIT: SendRateLimit = {
+  roomPerSecond: 1,
+  roomBurst: 3,
+  globalPerSecond: 2.5,
+  globalBurst: 3,
+};
+
+export const DEFAULT_UPLOAD_RATE_LIMIT: SendRateLimit = {
+  roomPerSecond: 0.5,
+  roomBurst: 2,
+  globalPerSecond: 1,
+  globalBurst: 2,
+};
+
+type SendJob = {
+  kind: SendKind;
+  chatKey: string;
+  task: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (err: Error) => void;
+};
+
+type ThrottleState = {
+  level: number;
+  pausedUntil: number;
+  recoverAt: number;
+};
+
+/**
+ * Bucket refilled continuously at `perSecond` (times the current slowdown), holding up to `burst` tokens.
+ */
+class TokenBucket {
+  perSecond: number;
+  burst: number;
+  tokens: number;
+  updatedAt: number;
+
+  constructor(perSecond: number, burst: number) {
+    this.perSecond = perSecond;
+    this.burst = Math.max(1, burst);
+    this.tokens = this.burst;
+    this.updatedAt = Date.now();
+  }
+
+  waitMs(now: number, scale: number) {
+    const rate = this.perSecond * scale;
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * rate);
+    this.updatedAt = now;
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) * 1000) / rate);
+  }
+
+  take() {
+    this.tokens -= 1;
+  }
+}
+
+function createBucket(perSecond: number, burst: number) {
+  return perSecond > 0 && Number.isFinite(perSecond) ? new TokenBucket(perSecond, burst) : null;
+}
+
+export type SendSchedulerOptions = {
+  write: SendRateLimit;
+  upload: SendRateLimit;
+  throttleBackoffMs: number;
+  throttleRecoverMs: number;
+  onThrottle?: (event: SendThrottleEvent) => void;
+};
+
+/**
+ * Rate limiter for outgoing LOCO requests.
+ * Every job needs a token from its room bucket and from the global bucket of its kind (write or upload).
+ * Lanes are served high → normal → low; within a room jobs run one at a time, in order.
+ * A rate-limit status (-303) pauses the kind and halves its refill rate, which recovers step by step.
+ */
+export class SendScheduler {
+  limits: Record<SendKind, SendRateLimit>;
+  throttleBackoffMs: number;
+  throttleRecoverMs: number;
+  _lanes: Record<SendPriority, SendJob[]>;
+  _global: Record<SendKind, TokenBucket | null>;
+  _rooms: Map<string, TokenBucket | null>;
+  _busy: Set<string>;
+  _throttle: Record<SendKind, ThrottleState>;
+  _timer: NodeJS.Timeout | null;
+  _onThrottle: ((event: SendThrottleEvent) => void) | null;
+
+  constructor({ write, upload, throttleBackoffMs, throttleRecoverMs, onThrottle }: SendSchedulerOptions) {
+    this.limits = { write, upload };
+    this.throttleBackoffMs = throttleBackoffMs;
+    this.throttleRecoverMs = throttleRecoverMs;
+    this._lanes = { high: [], normal: [], low: [] };
+    this._global = {
+      write: createBucket(write.globalPerSecond, write.globalBurst),
+      upload: createBucket(upload.globalPerSecond, upload.globalBurst),
+    };
+    this._rooms = new Map();
+    this._busy = new Set();
+    this._throttle = {
+      write: { level: 0, pausedUntil: 0, recoverAt: 0 },
+      upload: { level: 0, pausedUntil: 0, recoverAt: 0 },
+    };
+    this._timer = null;
+    this._onThrottle = onThrottle || null;
+  }
+
+  /**
+   * Jobs waiting for a token.
+   */
+  get pending() {
+    return PRIORITIES.reduce((sum, priority) => sum + this._lanes[priority].length, 0);
+  }
+
+  /**
+   * Current slowdown level of a kind (0 = full speed).
+   */
+  slowdown(kind: SendKind = 'write') {
+    this._decay(kind, Date.now());
+    return this._throttle[kind].level;
+  }
+
+  schedule<T>(
+    task: () => Promise<T>,
+    { chatId, kind = 'write', priority = 'normal' }: { chatId?: number | string; kind?: SendKind; priority?: SendPriority } = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const lane = this._lanes[priority] || this._lanes.normal;
+      lane.push({ kind, chatKey: chatId !== undefined && chatId !== null ? String(chatId) : '_global', task, resolve, reject });
+      this._pump();
+    });
+  }
+
+  _pump() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    const now = Date.now();
+    let wait = Infinity;
+    // A waiting job holds back later jobs of its room and, when the global bucket is empty,
+    // every lower-priority job of its kind
+    const blockedRooms = new Set<string>();
+    const blockedKinds = new Set<SendKind>();
+
+    for (const priority of PRIORITIES) {
+      const lane = this._lanes[priority];
+      for (let i = 0; i < lane.length; i += 1) {
+        const job = lane[i];
+        const roomKey = `${job.kind}:${job.chatKey}`;
+        if (blockedKinds.has(job.kind) || blockedRooms.has(roomKey)) continue;
+        if (this._busy.has(roomKey)) {
+          blockedRooms.add(roomKey);
+          continue;
+        }
+
+        const scale = this._decay(job.kind, now);
+        const globalBucket = this._global[job.kind];
+        const globalWait = Math.max(
+          this._throttle[job.kind].pausedUntil - now,
+          globalBucket ? globalBucket.waitMs(now, scale) : 0
+        );
+        if (globalWait > 0) {
+          blockedKinds.add(job.kind);
+          wait = Math.min(wait, globalWait);
+          continue;
+        }
+        const roomBucket = this._roomBucket(job.kind, roomKey);
+        const roomWait = roomBucket ? roomBucket.waitMs(now, scale) : 0;
+        if (roomWait > 0) {
+          blockedRooms.add(roomKey);
+          wait = Math.min(wait, roomWait);
+          continue;
+        }
+
+        lane.splice(i, 1);
+        i -= 1;
+        if (globalBucket) globalBucket.take();
+        if (roomBucket) roomBucket.take();
+        this._run(job, roomKey);
+      }
+    }
+
+    if (wait < Infinity) {
+      this._timer = setTimeout(() => {
+        this._timer = null;
+        this._pump();
+      }, wait);
+    }
+  }
+
+  _run(job: SendJob, roomKey: string) {
+    this._busy.add(roomKey);
+    Promise.resolve()
+      .then(job.task)
+      .then(job.resolve, (err) => {
+        if (err instanceof LocoStatusError && err.code === 'SPAM_LIMIT') {
+          this._slowDown(job.kind, err.status);
+        }
+        job.reject(err);
+      })
+      .finally(() => {
+        this._busy.delete(roomKey);
+        this._pump();
+      });
+  }
+
+  _roomBucket(kind: SendKind, roomKey: string) {
+    if (!this._rooms.has(roomKey)) {
+      const limit = this.limits[kind];
+      this._rooms.set(roomKey, createBucket(limit.roomPerSecond, limit.roomBurst));
+    }
+    return this._rooms.get(roomKey) || null;
+  }
+
+  /**
+   * Drop one slowdown level per quiet recovery period, and return the refill scale.
+   */
+  _decay(kind: SendKind, now: number) {
+    const state = this._throttle[kind];
+    while (state.level > 0 && now >= state.recoverAt) {
+      state.level -= 1;
+      state.recoverAt += this.throttleRecoverMs;
+    }
+    return 1 / 2 ** state.level;
+  }
+
+  _slowDown(kind: SendKind, status: number) {
+    const now = Date.now();
+    const state = this._throttle[kind];
+    this._decay(kind, now);
+    state.level = Math.min(MAX_SLOWDOWN_LEVEL, state.level + 1);
+    const pausedMs = this.throttleBackoffMs * 2 ** (state.level - 1);
+    state.pausedUntil = now + pausedMs;
+    state.recoverAt = state.pausedUntil + this.throttleRecoverMs;
+    console.warn(`[!] ${kind} rate limited (status=${status}), pausing ${pausedMs}ms at ${100 / 2 ** state.level}% rate`);
+    if (this._onThrottle) {
+      this._onThrottle({ kind, status, level: state.level, pausedMs });
+    }
+  }
+}
@@ -15,23 +15,75 @@ const RSA_EXPONENT = 3;
 
 export const AES_KEY_SIZE = 16;       // 128 bits
 export const AES_IV_SIZE = 12;        // GCM nonce
-const GCM_TAG_BITS = 128;
-const ENCRYPTION_TYPE = 3;     // AES_GCM128
+const GCM_TAG_SIZE = 16;
+const HANDSHAKE_HEADER_SIZE = 12;
 const MAX_BLOCK_SIZE = 131068;
 
+/**
+ * Symmetric cipher used for V2SL blocks, selected by the handshake encryption type.
+ */
+export interface V2SLCipher {
+  encryptionType: number;
+  keySize: number;
+  /** Returns the block payload (everything after the 4-byte size field). */
+  encrypt(key: Buffer, plaintext: Buffer): Buffer;
+  decrypt(key: Buffer, payload: Buffer): Buffer;
+}
+
+/**
+ * AES-128-GCM (encryption type 3): [12 bytes IV][ciphertext][16 bytes tag]
+ */
+export const AES_GCM_128: V2SLCipher = {
+  encryptionType: 3,
+  keySize: AES_KEY_SIZE,
+  encrypt(key: Buffer, plaintext: Buffer) {
+    const iv = crypto.randomBytes(AES_IV_SIZE);
+    const cipher = crypto.createCipheriv('aes-128-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, encrypted, cipher.getAuthTag()]);
+  },
+  decrypt(key: Buffer, payload: Buffer) {
+    const iv = payload.subarray(0, AES_IV_SIZE);
+    const tagStart = payload.length - GCM_TAG_SIZE;
+    const ciphertext = payload.subarray(AES_IV_SIZE, tagStart);
+    const tag = payload.subarray(tagStart);
+
+    const decipher = crypto.createDecipheriv('aes-128-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  },
+};
+
+export type V2SLCryptoOptions = {
+  publicKey?: crypto.KeyObject | string | Buffer;
+  cipher?: V2SLCipher;
+};
+
+export type V2SLServerCryptoOptions = {
+  privateKey: crypto.KeyObject | string | Buffer;
+  ciphers?: V2SLCipher[];
+};
+
 export class V2SLCrypto {
   aesKey: Buffer;
   handshaked: boolean;
+  publicKey: crypto.KeyObject | string | Buffer | null;
+  cipher: V2SLCipher;
 
-  constructor() {
-    this.aesKey = crypto.randomBytes(AES_KEY_SIZE);
+  constructor(opts: V2SLCryptoOptions = {}) {
+    this.cipher = opts.cipher || AES_GCM_128;
+    this.aesKey = crypto.randomBytes(this.cipher.keySize);
     this.handshaked = false;
+    this.publicKey = opts.publicKey || null;
   }
 
   /**
    * Create RSA public key object from raw modulus/exponent
    */
   _getRsaPublicKey() {
+    if (this.publicKey) {
+      return crypto.createPublicKey(this.publicKey);
+    }
     // Build RSA public key in DER format
     const modulus = RSA_MODULUS;
     const exponent = Buffer.from([0x03]);
@@ -66,48 +118,38 @@ export class V2SLCrypto {
   /**
    * Build the V2SL handshake packet:
    *   [4 bytes] RSA encrypted data length
-   *   [4 bytes] 16 (key size)
-   *   [4 bytes] 3  (encryption type = AES_GCM128)
+   *   [4 bytes] key size (16)
+   *   [4 bytes] encryption type (3 = AES_GCM128)
    *   [N bytes] RSA encrypted AES key
    */
   buildHandshake() {
     const encryptedKey = this.rsaEncrypt(this.aesKey);
 
-    const header = Buffer.alloc(12);
+    const header = Buffer.alloc(HANDSHAKE_HEADER_SIZE);
     header.writeInt32LE(encryptedKey.length, 0);
-    header.writeInt32LE(AES_KEY_SIZE, 4);
-    header.writeInt32LE(ENCRYPTION_TYPE, 8);
+    header.writeInt32LE(this.cipher.keySize, 4);
+    header.writeInt32LE(this.cipher.encryptionType, 8);
 
     this.handshaked = true;
     return Buffer.concat([header, encryptedKey]);
   }
 
   /**
-   * Encrypt data with AES-GCM:
-   *   [4 bytes] block_size = iv_size + encrypted_size (with tag)
-   *   [12 bytes] random IV
-   *   [N bytes]  AES-GCM ciphertext + tag
+   * Encrypt data into a V2SL block:
+   *   [4 bytes] block_size = payload length
+   *   [N bytes] cipher payload (AES-GCM: IV + ciphertext + tag)
    */
   encrypt(plaintext: Buffer) {
-    const iv = crypto.randomBytes(AES_IV_SIZE);
-    const cipher = crypto.createCipheriv('aes-128-gcm', this.aesKey, iv);
-
-    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    const ciphertext = Buffer.concat([encrypted, tag]);
-
-    const blockSize = AES_IV_SIZE + ciphertext.length;
+    const payload = this.cipher.encrypt(this.aesKey, plaintext);
     const header = Buffer.alloc(4);
-    header.writeInt32LE(blockSize, 0);
-
-    return Buffer.concat([header, iv, ciphertext]);
+    header.writeInt32LE(payload.length, 0);
+    return Buffer.concat([header, payload]);
   }
 
   /**
-   * Decrypt AES-GCM block:
+   * Decrypt a V2SL block:
    *   Read [4 bytes] block_size
-   *   Read [12 bytes] IV
-   *   Read [block_size - 12 bytes] ciphertext + tag
+   *   Read [block_size bytes] cipher payload
    *   Decrypt and return plaintext
    */
   decrypt(blockBuf: Buffer) {
@@ -115,19 +157,7 @@ export class V2SLCrypto {
     if (blockSize > MAX_BLOCK_SIZE) {
       throw new Error(`V2SL block too large: ${blockSize}`);
     }
-
-    const iv = blockBuf.subarray(4, 4 + AES_IV_SIZE);
-    const ciphertextWithTag = blockBuf.subarray(4 + AES_IV_SIZE, 4 + blockSize);
-
-    // GCM tag is last 16 bytes
-    const tagStart = ciphertextWithTag.length - 16;
-    const ciphertext = ciphertextWithTag.subarray(0, tagStart);
-    const tag = ciphertextWithTag.subarray(tagStart);
-
-    const decipher = crypto.createDecipheriv('aes-128-gcm', this.aesKey, iv);
-    decipher.setAuthTag(tag);
-
-    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return this.cipher.decrypt(this.aesKey, blockBuf.subarray(4, 4 + blockSize));
   }
 
   /**
@@ -139,3 +169,59 @@ export class V2SLCrypto {
     return buf.readInt32LE(0) + 4; // block_size + 4 bytes for the size field
   }
 }
+
+/**
+ * Server side of V2SL: unwraps the client handshake with the RSA private key,
+ * then encrypts/decrypts blocks with the negotiated cipher.
+ */
+export class V2SLServerCrypto extends V2SLCrypto {
+  privateKey: crypto.KeyObject | string | Buffer;
+  ciphers: V2SLCipher[];
+
+  constructor(opts: V2SLServerCryptoOptions) {
+    super();
+    this.privateKey = opts.privateKey;
+    this.ciphers = opts.ciphers && opts.ciphers.length ? opts.ciphers : [AES_GCM_128];
+  }
+
+  /**
+   * Total handshake length in buf, or null if the header is incomplete.
+   */
+  static handshakeSize(buf: Buffer) {
+    if (buf.length < HANDSHAKE_HEADER_SIZE) return null;
+    return HANDSHAKE_HEADER_SIZE + buf.readInt32LE(0);
+  }
+
+  /**
+   * Parse a client handshake and adopt its key and cipher.
+   * Returns bytes consumed, or 0 if more data is needed.
+   */
+  acceptHandshake(buf: Buffer) {
+    const total = V2SLServerCrypto.handshakeSize(buf);
+    if (total === null || buf.length < total) return 0;
+
+    const keySize = buf.readInt32LE(4);
+    const encryptionType = buf.readInt32LE(8);
+    const cipher = this.ciphers.find((c) => c.encryptionType === encryptionType);
+    if (!cipher) {
+      throw new Error(`Unsupported V2SL encryption type: ${encryptionType}`);
+    }
+
+    const key = crypto.privateDecrypt(
+      {
+        key: this.privateKey,
+        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: 'sha1',
+      },
+      buf.subarray(HANDSHAKE_HEADER_SIZE, total)
+    );
+    if (key.length !== keySize || keySize !== cipher.keySize) {
+      throw new Error(`V2SL key size mismatch: ${key.length}`);
+    }
+
+    this.cipher = cipher;
+    this.aesKey = key;
+    this.handshaked = true;
+    return total;
+  }
+}
@@ -1,5 +1,4 @@
-﻿import * as fs from 'fs';
-import * as path from 'path';
+﻿import * as path from 'path';
 import {
   qrLogin,
   DEFAULT_QR_MODEL_NAME,
@@ -7,6 +6,7 @@ import {
 
 import {
   loadAuthFile,
+  saveAuthFile,
   formatKstTimestamp,
   buildMentionMarker,
   buildSpoilerMarker,
@@ -23,14 +23,35 @@ import {
 export {
   MessageType,
   type MessageTypeValue,
+  type MessageContent,
+  type TextContent,
+  type PhotoInfo,
+  type PhotoContent,
+  type MultiPhotoContent,
+  type VideoContent,
+  type AudioContent,
+  type FileContent,
+  type ContactContent,
+  type LocationContent,
+  type ProfileContent,
+  type ScheduleContent,
+  type LinkContent,
+  type ReplyContent,
   Reactions,
   type ReactionTypeValue,
+  RoomMetaType,
+  type RoomMetaTypeValue,
+  type ReactionSummary,
+  type OpenLinkInfo,
   type TransportMode,
   type MessageEvent,
   type MemberAction,
   type MemberEvent,
   type DeleteEvent,
   type HideEvent,
+  type EditEvent,
+  type ReactionEvent,
+  type ReadEvent,
   type SendOptions,
   type ReplyTarget,
   type ReplyOptions,
@@ -40,6 +61,9 @@ export {
   type OpenChatKickOptions,
   type OpenChatBlindOptions,
   type EditMessageOptions,
+  type CreateChatOptions,
+  type LeaveChatOptions,
+  type JoinOpenChatOptions,
   type AttachmentInput,
   type AttachmentSendOptions,
   type VideoQuality,
@@ -55,8 +79,133 @@ export {
   type KakaoForgeConfig,
   type AuthPayload,
   type ChatModule,
+  type OpenChatModule,
+  type MessageHandler,
+  type MemberEventHandler,
+  type DeleteEventHandler,
+  type HideEventHandler,
+  type EditEventHandler,
+  type ReactionEventHandler,
+  type ReadEventHandler,
+  type EventType,
+  type EventContext,
+  type EventMiddleware,
+  type MessageMention,
+  type CommandArgType,
+  type CommandArgSpec,
+  type CommandPermission,
+  type CommandContext,
+  type CommandDefinition,
+  type CommandDeniedReason,
+  type CommandDeniedEvent,
+  type MessageFilter,
+  type AwaitMessageOptions,
+  type MessageCollectorOptions,
+  type EventStreamOptions,
+  type SendKind,
+  type SendPriority,
+  type SendRateLimit,
+  type SendThrottleEvent,
+  type ScheduledSendKind,
+  type ScheduledMessage,
+  type ScheduleCatchUp,
+  type ScheduleOptions,
 } from './types';
 
+export { CommandRouter } from './client/command-router';
+export { MessageCollector, type MessageCollectorEndReason } from './client/message-collector';
+export { EventStream, type EventStreamOverflow } from './client/event-stream';
+export { MessageScheduler, type MessageSchedulerOptions } from './client/message-scheduler';
+export { SendScheduler, DEFAULT_SEND_RATE_LIMIT, DEFAULT_UPLOAD_RATE_LIMIT } from './client/send-scheduler';
+export { Message, MessageSender, MessageRoom } from './models/message';
+export { Room } from './models/room';
+export { User } from './models/user';
+export { RoomDirectory } from './client/room-directory';
+export { stripMentions } from './utils/mention';
+
+export {
+  MemoryStateStore,
+  JsonFileStateStore,
+  CLIENT_STATE_VERSION,
+  type StateStore,
+  type ClientStateSnapshot,
+} from './state/state-store';
+
+export { Outbox, type OutboxOptions } from './client/outbox';
+export {
+  MemoryOutboxStore,
+  JsonFileOutboxStore,
+  type OutboxStore,
+  type OutboxItem,
+  type OutboxSentEvent,
+  type OutboxFailedEvent,
+} from './state/outbox-store';
+export {
+  MemoryScheduleStore,
+  JsonFileScheduleStore,
+  type ScheduleStore,
+  type ScheduleRecord,
+  type ScheduleRunEvent,
+  type ScheduleErrorEvent,
+} from './state/schedule-store';
+
+export {
+  V2SLCrypto,
+  V2SLServerCrypto,
+  AES_GCM_128,
+  type V2SLCipher,
+  type V2SLCryptoOptions,
+  type V2SLServerCryptoOptions,
+} from './crypto/v2sl';
+
+export {
+  PacketRecorder,
+  readPacketCapture,
+  type PacketCaptureEntry,
+  type PacketCaptureFormat,
+  type PacketRecorderOptions,
+} from './net/packet-capture';
+
+export { ReplayCarriageClient } from './net/replay-client';
+
+export {
+  LocoStatusError,
+  LOCO_STATUS_TABLE,
+  describeLocoStatus,
+  type LocoStatusCode,
+  type LocoStatusInfo,
+} from './protocol/loco-status';
+
+export {
+  validateLocoBody,
+  LOCO_RESPONSE_SCHEMAS,
+  LOCO_PUSH_SCHEMAS,
+  type LocoId,
+  type LocoChatLog,
+  type LocoMember,
+  type LocoChatData,
+  type LocoOpenLink,
+  type LocoMethodMap,
+  type LocoMethod,
+  type LocoRequestBody,
+  type LocoResponseBody,
+  type LocoResponse,
+  type LocoPushMap,
+  type LocoPushMethod,
+  type LocoSchema,
+} from './protocol/loco-methods';
+
+export {
+  MockLocoServer,
+  type MockChat,
+  type MockMember,
+  type MockOpenLink,
+  type MockMessageInput,
+  type MockRequestHandler,
+  type MockRequestRecord,
+  type MockLocoServerOptions,
+} from './mock';
+
 export { MemberType } from './types/member-type';
 export type { MemberTypeValue } from './types/member-type';
 export type MemberType = MemberTypeValue;
@@ -97,7 +246,7 @@ export function createClient(config: KakaoForgeConfig = {}) {
       authConfig.refreshToken = auth.refreshToken;
     }
 
-    merged = { ...authConfig, ...merged };
+    merged = { ...authConfig, ...merged, authPath };
 
     if (!merged.userId || !merged.oauthToken || !merged.deviceUuid) {
       const msg = 'auth.json is missing required fields (userId/accessToken/deviceUuid). Please re-authenticate.';
@@ -159,7 +308,7 @@ export async function createAuthByQR({
 
   if (save !== false) {
     const targetPath = authPath || path.join(process.cwd(), 'auth.json');
-    fs.writeFileSync(targetPath, JSON.stringify(payload, null, 2), 'utf-8');
+    saveAuthFile(targetPath, payload);
     payload.authPath = targetPath;
     console.log(`[+] Saved auth.json at ${targetPath}`);
   }
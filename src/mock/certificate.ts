@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+
+export type SelfSignedCert = {
+  key: string;
+  cert: string;
+};
+
+function derLength(length: number) {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  let value = length;
+  while (value > 0) {
+    bytes.unshift(value & 0xff);
+    value >>= 8;
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...parts: Buffer[]) {
+  const content = Buffer.concat(parts);
+  return Buffer.concat([Buffer.from([tag]), derLength(content.length), content]);
+}
+
+function derInteger(value: Buffer) {
+  let bytes = value;
+  while (bytes.length > 1 && bytes[0] === 0 && (bytes[1] & 0x80) === 0) {
+    bytes = bytes.subarray(1);
+  }
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+  return der(0x02, bytes);
+}
+
+function derOid(oid: string) {
+  const parts = oid.split('.').map((v) => parseInt(v, 10));
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    let value = part >> 7;
+    while (value > 0) {
+      chunk.unshift((value & 0x7f) | 0x80);
+      value >>= 7;
+    }
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+function derUtcTime(date: Date) {
+  const pad = (v: number) => String(v).padStart(2, '0');
+  const text =
+    pad(date.getUTCFullYear() % 100) +
+    pad(date.getUTCMonth() + 1) +
+    pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) +
+    pad(date.getUTCMinutes()) +
+    pad(date.getUTCSeconds()) +
+    'Z';
+  return der(0x17, Buffer.from(text, 'ascii'));
+}
+
+function derName(commonName: string) {
+  return der(0x30, der(0x31, der(0x30, derOid('2.5.4.3'), der(0x0c, Buffer.from(commonName, 'utf8')))));
+}
+
+function toPem(label: string, body: Buffer) {
+  const base64 = body.toString('base64').replace(/(.{64})/g, '$1\n').replace(/\n$/, '');
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Build a throwaway self-signed certificate for localhost / 127.0.0.1.
+ * Only meant for the in-process mock Booking server.
+ */
+export function generateSelfSignedCert(commonName = 'localhost', validDays = 30): SelfSignedCert {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const signatureAlgorithm = der(0x30, derOid('1.2.840.113549.1.1.11'), der(0x05));
+  const name = derName(commonName);
+  const notBefore = new Date(Date.now() - 60 * 1000);
+  const notAfter = new Date(Date.now() + validDays * 24 * 60 * 60 * 1000);
+
+  const subjectAltName = der(
+    0x30,
+    der(0x82, Buffer.from(commonName, 'ascii')),
+    der(0x87, Buffer.from([127, 0, 0, 1]))
+  );
+  const extensions = der(
+    0xa3,
+    der(
+      0x30,
+      der(0x30, derOid('2.5.29.19'), der(0x01, Buffer.from([0xff])), der(0x04, der(0x30, der(0x01, Buffer.from([0xff]))))),
+      der(0x30, derOid('2.5.29.17'), der(0x04, subjectAltName))
+    )
+  );
+
+  const tbs = der(
+    0x30,
+    der(0xa0, derInteger(Buffer.from([2]))),
+    derInteger(crypto.randomBytes(8)),
+    signatureAlgorithm,
+    name,
+    der(0x30, derUtcTime(notBefore), derUtcTime(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }) as Buffer,
+    extensions
+  );
+  const signature = crypto.sign('sha256', tbs, privateKey);
+  const certificate = der(0x30, tbs, signatureAlgorithm, der(0x03, Buffer.from([0]), signature));
+
+  return {
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    cert: toPem('CERTIFICATE', certificate),
+  };
+}
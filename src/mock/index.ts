@@ -0,0 +1,3 @@
+// Re-export mock server for offline testing
+export * from './loco-server';
+export * from './certificate';
@@ -0,0 +1,942 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Long } from 'bson';
+import { LocoPacket, HEADER_SIZE } from '../protocol/loco-packet';
+import { LocoStream } from '../net/loco-stream';
+import { V2SLCrypto, V2SLServerCrypto, type V2SLCipher } from '../crypto/v2sl';
+import { normalizeIdValue, safeNumber, toLong } from '../utils';
+import { type KakaoForgeConfig } from '../types';
+import { generateSelfSignedCert, type SelfSignedCert } from './certificate';
+
+export type MockMember = {
+  userId: number | string;
+  nickName: string;
+  memberType?: number;
+  profileImageUrl?: string;
+};
+
+export type MockChat = {
+  chatId: number | string;
+  type?: string;
+  title?: string;
+  linkId?: number | string;
+  members?: MockMember[];
+};
+
+// Open chat the mock user can join through JOININFO/JOINLINK
+export type MockOpenLink = {
+  linkId: number | string;
+  chatId: number | string;
+  // Link code, as in https://open.kakao.com/o/<code>
+  code: string;
+  title: string;
+  description?: string;
+  passcode?: string;
+  members?: MockMember[];
+};
+
+export type MockResponse = { status?: number; body?: any } | null | void;
+
+export type MockRequestContext = {
+  server: MockLocoServer;
+  session: MockSession | null;
+  transport: 'booking' | 'v2sl';
+  method: string;
+  packetId: number;
+};
+
+export type MockRequestHandler = (body: any, ctx: MockRequestContext) => MockResponse | Promise<MockResponse>;
+
+export type MockRequestRecord = {
+  transport: 'booking' | 'v2sl';
+  method: string;
+  body: any;
+  at: number;
+};
+
+export type MockMessageInput = {
+  authorId: number | string;
+  text?: string;
+  type?: number;
+  attachment?: string | Record<string, any>;
+};
+
+export type MockLocoServerOptions = {
+  host?: string;
+  userId?: number;
+  oauthToken?: string;
+  deviceUuid?: string;
+  chats?: MockChat[];
+  tls?: SelfSignedCert;
+  ciphers?: V2SLCipher[];
+};
+
+type MockChatState = {
+  chatId: number | string;
+  type: string;
+  title: string;
+  linkId: number | string;
+  members: Map<string, MockMember>;
+  logs: any[];
+  // userId -> last logId the member has read
+  watermarks: Map<string, number | string>;
+  notice: string;
+};
+
+type MockUploadState = {
+  key: string;
+  chatId: number | string;
+  type: number;
+  name: string;
+  size: number;
+  remaining: number;
+};
+
+/**
+ * One V2SL connection (Ticket, Carriage or upload trailer) on the mock server.
+ */
+export class MockSession {
+  server: MockLocoServer;
+  socket: net.Socket;
+  crypto: V2SLServerCrypto;
+  loggedIn: boolean;
+  upload: MockUploadState | null;
+  _recvBuffer: Buffer;
+  _decryptedBuffer: Buffer;
+
+  constructor(server: MockLocoServer, socket: net.Socket, privateKey: crypto.KeyObject, ciphers?: V2SLCipher[]) {
+    this.server = server;
+    this.socket = socket;
+    this.crypto = new V2SLServerCrypto({ privateKey, ciphers });
+    this.loggedIn = false;
+    this.upload = null;
+    this._recvBuffer = Buffer.alloc(0);
+    this._decryptedBuffer = Buffer.alloc(0);
+
+    socket.on('data', (data) => {
+      try {
+        this._onData(data);
+      } catch (err) {
+        server.emit('error', err);
+        socket.destroy();
+      }
+    });
+  }
+
+  _onData(data: Buffer) {
+    this._recvBuffer = Buffer.concat([this._recvBuffer, data]);
+
+    if (!this.crypto.handshaked) {
+      const consumed = this.crypto.acceptHandshake(this._recvBuffer);
+      if (!consumed) return;
+      this._recvBuffer = this._recvBuffer.subarray(consumed);
+    }
+
+    while (this._recvBuffer.length >= 4) {
+      const blockTotalSize = V2SLCrypto.blockSize(this._recvBuffer);
+      if (!blockTotalSize || this._recvBuffer.length < blockTotalSize) break;
+      const blockBuf = this._recvBuffer.subarray(0, blockTotalSize);
+      this._recvBuffer = this._recvBuffer.subarray(blockTotalSize);
+      this._decryptedBuffer = Buffer.concat([this._decryptedBuffer, this.crypto.decrypt(blockBuf)]);
+    }
+
+    this._drain();
+  }
+
+  _drain() {
+    while (this._decryptedBuffer.length > 0) {
+      if (this.upload) {
+        const take = Math.min(this.upload.remaining, this._decryptedBuffer.length);
+        this.upload.remaining -= take;
+        this._decryptedBuffer = this._decryptedBuffer.subarray(take);
+        if (this.upload.remaining <= 0) {
+          const upload = this.upload;
+          this.upload = null;
+          this.server._completeUpload(this, upload);
+        }
+        continue;
+      }
+
+      const header = LocoPacket.parseHeader(this._decryptedBuffer);
+      if (!header) break;
+      const totalSize = HEADER_SIZE + header.bodyLength;
+      if (this._decryptedBuffer.length < totalSize) break;
+      const packet = LocoPacket.fromBuffer(this._decryptedBuffer.subarray(0, totalSize));
+      this._decryptedBuffer = this._decryptedBuffer.subarray(totalSize);
+      void this.server._dispatch('v2sl', this, packet, (res) => this.send(res));
+    }
+  }
+
+  send(packet: LocoPacket) {
+    if (this.socket.destroyed) return;
+    this.socket.write(this.crypto.encrypt(packet.serialize()));
+  }
+
+  /**
+   * Send a server push (packetId 0, never collides with client request ids).
+   */
+  push(method: string, body: any = {}) {
+    this.send(new LocoPacket(0, 0, method, body));
+  }
+}
+
+/**
+ * In-process LOCO server for offline testing.
+ * Booking (TLS + LocoPacket) answers GETCONF/CHECKIN, while a single V2SL
+ * endpoint plays Ticket, Carriage and upload trailer at the same time.
+ */
+export class MockLocoServer extends EventEmitter {
+  host: string;
+  userId: number;
+  oauthToken: string;
+  deviceUuid: string;
+  requests: MockRequestRecord[];
+  _tls: SelfSignedCert;
+  _publicKeyPem: string;
+  _privateKey: crypto.KeyObject;
+  _ciphers: V2SLCipher[] | undefined;
+  _bookingServer: tls.Server | null;
+  _v2slServer: net.Server | null;
+  _bookingSockets: Set<tls.TLSSocket>;
+  _sessions: Set<MockSession>;
+  _chats: Map<string, MockChatState>;
+  _openLinkRegistry: Map<string, MockOpenLink>;
+  _handlers: Map<string, MockRequestHandler>;
+  _defaultHandlers: Record<string, MockRequestHandler>;
+  _logIdCounter: number;
+  _chatIdCounter: number;
+  _uploadCounter: number;
+
+  constructor(opts: MockLocoServerOptions = {}) {
+    super();
+    this.host = opts.host || '127.0.0.1';
+    this.userId = opts.userId || 1000;
+    this.oauthToken = opts.oauthToken || 'mock-access-token';
+    this.deviceUuid = opts.deviceUuid || 'mock-device-uuid';
+    this.requests = [];
+    this._tls = opts.tls || generateSelfSignedCert(this.host === '127.0.0.1' ? 'localhost' : this.host);
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this._publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }) as string;
+    this._privateKey = privateKey;
+    this._ciphers = opts.ciphers;
+    this._bookingServer = null;
+    this._v2slServer = null;
+    this._bookingSockets = new Set();
+    this._sessions = new Set();
+    this._chats = new Map();
+    this._openLinkRegistry = new Map();
+    this._handlers = new Map();
+    this._logIdCounter = 1000000;
+    this._chatIdCounter = 9000000;
+    this._uploadCounter = 0;
+
+    this._defaultHandlers = {
+      GETCONF: () => this._handleGetConf(),
+      CHECKIN: () => ({ body: { host: this.host, host6: '', port: this.v2slPort, cacheExpire: 3600 } }),
+      LOGINLIST: (body, ctx) => this._handleLoginList(body, ctx),
+      LCHATLIST: () => ({ body: { chatDatas: this._chatDatas(), lastTokenId: 0, lastChatId: 0, eof: true } }),
+      WRITE: (body) => this._handleWrite(body),
+      SYNCMSG: (body) => this._handleSyncMsg(body),
+      GETMSGS: (body) => this._handleGetMsgs(body),
+      MEMBER: (body) => this._handleMember(body),
+      MEMLIST: (body) => this._handleMemList(body),
+      CHATINFO: (body) => this._handleChatInfo(body),
+      CHATONROOM: (body) => this._handleChatOnRoom(body),
+      SYNCLINK: () => ({ body: { ols: this._openLinks(), ltk: 0 } }),
+      INFOLINK: (body) => this._handleInfoLink(body),
+      JOININFO: (body) => this._handleJoinInfo(body),
+      JOINLINK: (body) => this._handleJoinLink(body),
+      PING: () => ({ body: {} }),
+      DELETEMSG: (body) => this._handleDeleteMsg(body),
+      MODIFYMSG: (body) => this._handleModifyMsg(body),
+      NOTIREAD: (body) => this._handleNotiRead(body),
+      CREATE: (body) => this._handleCreate(body),
+      ADDMEM: (body) => this._handleAddMem(body),
+      LEAVE: (body) => this._handleLeave(body),
+      SETMETA: (body) => this._handleSetMeta(body),
+      KICKMEM: (body) => this._handleKickMem(body),
+      BLIND: () => ({ body: {} }),
+      SHIP: (body) => this._handleShip(body),
+      GETTRAILER: () => ({ body: { vh: this.host, p: this.v2slPort } }),
+      POST: (body, ctx) => this._handlePost(body, ctx),
+    };
+
+    for (const chat of opts.chats || []) {
+      this.addChat(chat);
+    }
+  }
+
+  get bookingPort() {
+    const address = this._bookingServer?.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  get v2slPort() {
+    const address = this._v2slServer?.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  /**
+   * Start listening on ephemeral ports.
+   */
+  async start() {
+    this._bookingServer = tls.createServer({ key: this._tls.key, cert: this._tls.cert }, (socket) => {
+      this._bookingSockets.add(socket);
+      const stream = new LocoStream();
+      stream.on('packet', (packet) => {
+        void this._dispatch('booking', null, packet, (res) => {
+          if (!socket.destroyed) socket.write(res.serialize());
+        });
+      });
+      stream.on('error', (err) => this.emit('error', err));
+      socket.on('data', (data) => stream.feed(data));
+      socket.on('error', () => {});
+      socket.on('close', () => this._bookingSockets.delete(socket));
+    });
+
+    this._v2slServer = net.createServer((socket) => {
+      const session = new MockSession(this, socket, this._privateKey, this._ciphers);
+      this._sessions.add(session);
+      socket.on('error', () => {});
+      socket.on('close', () => {
+        this._sessions.delete(session);
+        this.emit('sessionClosed', session);
+      });
+    });
+
+    await Promise.all([
+      new Promise<void>((resolve) => this._bookingServer!.listen(0, this.host, () => resolve())),
+      new Promise<void>((resolve) => this._v2slServer!.listen(0, this.host, () => resolve())),
+    ]);
+    return { bookingPort: this.bookingPort, v2slPort: this.v2slPort };
+  }
+
+  /**
+   * Close every connection and stop listening.
+   */
+  async stop() {
+    for (const socket of this._bookingSockets) socket.destroy();
+    for (const session of this._sessions) session.socket.destroy();
+    this._bookingSockets.clear();
+    this._sessions.clear();
+    const close = (server: net.Server | null) =>
+      new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    await Promise.all([close(this._bookingServer), close(this._v2slServer)]);
+    this._bookingServer = null;
+    this._v2slServer = null;
+  }
+
+  /**
+   * Client config pointing at this server (credentials, Booking CA, V2SL key).
+   */
+  clientConfig(overrides: KakaoForgeConfig = {}): KakaoForgeConfig {
+    return {
+      userId: this.userId,
+      oauthToken: this.oauthToken,
+      deviceUuid: this.deviceUuid,
+      bookingHost: this.host,
+      bookingPort: this.bookingPort,
+      bookingCa: this._tls.cert,
+      v2slPublicKey: this._publicKeyPem,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Replace the default reply for a LOCO method.
+   * Return null from the handler to leave the request unanswered.
+   */
+  handle(method: string, handler: MockRequestHandler) {
+    this._handlers.set(method, handler);
+  }
+
+  unhandle(method: string) {
+    this._handlers.delete(method);
+  }
+
+  /**
+   * Resolve with the next request of the given method.
+   */
+  waitForRequest(method: string, timeoutMs = 5000): Promise<MockRequestRecord> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off('request', onRequest);
+        reject(new Error(`Mock request ${method} timed out`));
+      }, timeoutMs);
+      const onRequest = (record: MockRequestRecord) => {
+        if (record.method !== method) return;
+        clearTimeout(timer);
+        this.off('request', onRequest);
+        resolve(record);
+      };
+      this.on('request', onRequest);
+    });
+  }
+
+  addChat(chat: MockChat) {
+    const chatId = normalizeIdValue(chat.chatId);
+    const members = new Map<string, MockMember>();
+    for (const member of chat.members || []) {
+      members.set(String(normalizeIdValue(member.userId)), member);
+    }
+    if (!members.has(String(this.userId))) {
+      members.set(String(this.userId), { userId: this.userId, nickName: 'me' });
+    }
+    const state: MockChatState = {
+      chatId,
+      type: chat.type || 'MultiChat',
+      title: chat.title || '',
+      linkId: chat.linkId ? normalizeIdValue(chat.linkId) : 0,
+      members,
+      logs: [],
+      watermarks: new Map(),
+      notice: '',
+    };
+    this._chats.set(String(chatId), state);
+    return state;
+  }
+
+  /**
+   * Register an open chat that is not joined yet; it becomes a chat on JOINLINK.
+   */
+  addOpenLink(link: MockOpenLink) {
+    this._openLinkRegistry.set(String(normalizeIdValue(link.linkId)), link);
+  }
+
+  addMember(chatId: number | string, member: MockMember) {
+    const chat = this._requireChat(chatId);
+    chat.members.set(String(normalizeIdValue(member.userId)), member);
+  }
+
+  removeMember(chatId: number | string, userId: number | string) {
+    const chat = this._requireChat(chatId);
+    chat.members.delete(String(normalizeIdValue(userId)));
+  }
+
+  chatLogs(chatId: number | string) {
+    return this._requireChat(chatId).logs.slice();
+  }
+
+  /**
+   * Push a raw LOCO packet to every logged-in Carriage session.
+   */
+  push(method: string, body: any = {}) {
+    for (const session of this._sessions) {
+      if (session.loggedIn) session.push(method, body);
+    }
+  }
+
+  /**
+   * Store a chat log from another member and push it as MSG.
+   */
+  pushMessage(chatId: number | string, input: MockMessageInput) {
+    const chat = this._requireChat(chatId);
+    const chatLog = this._appendChatLog(chat, {
+      authorId: input.authorId,
+      message: input.text || '',
+      type: input.type ?? 1,
+      attachment: input.attachment,
+    });
+    const author = chat.members.get(String(normalizeIdValue(input.authorId)));
+    const body: any = {
+      chatId: toLong(chat.chatId),
+      logId: chatLog.logId,
+      chatLog,
+      authorNickname: author?.nickName || '',
+      noSeen: false,
+    };
+    if (chat.linkId) body.li = toLong(chat.linkId);
+    this.push('MSG', body);
+    return chatLog;
+  }
+
+  /**
+   * Add a member and push NEWMEM with a join feed.
+   */
+  pushJoin(chatId: number | string, member: MockMember) {
+    const chat = this._requireChat(chatId);
+    chat.members.set(String(normalizeIdValue(member.userId)), member);
+    const chatLog = this._appendChatLog(chat, {
+      authorId: member.userId,
+      message: JSON.stringify({
+        feedType: 4,
+        members: [{ userId: normalizeIdValue(member.userId), nickName: member.nickName }],
+      }),
+      type: 0,
+    });
+    this.push('NEWMEM', { chatId: toLong(chat.chatId), chatLog });
+    return chatLog;
+  }
+
+  /**
+   * Record that a member read the chat up to logId (default: the latest log) and push DECUNREAD.
+   */
+  pushRead(chatId: number | string, userId: number | string, logId?: number | string) {
+    const chat = this._requireChat(chatId);
+    const last = chat.logs[chat.logs.length - 1];
+    const watermark = normalizeIdValue(logId ?? (last ? last.logId : 0));
+    chat.watermarks.set(String(normalizeIdValue(userId)), watermark);
+    this.push('DECUNREAD', {
+      chatId: toLong(chat.chatId),
+      userId: toLong(userId),
+      watermark: toLong(watermark),
+    });
+    return watermark;
+  }
+
+  /**
+   * Remove a member and push DELMEM (leave, or kick when kickedBy is set).
+   */
+  pushLeave(chatId: number | string, userId: number | string, opts: { kickedBy?: number | string } = {}) {
+    const chat = this._requireChat(chatId);
+    const key = String(normalizeIdValue(userId));
+    const member = chat.members.get(key);
+    chat.members.delete(key);
+    const chatLog = this._appendChatLog(chat, {
+      authorId: opts.kickedBy ?? userId,
+      message: JSON.stringify({
+        feedType: opts.kickedBy ? 6 : 2,
+        members: [{ userId: normalizeIdValue(userId), nickName: member?.nickName || '' }],
+      }),
+      type: 0,
+    });
+    this.push('DELMEM', { chatId: toLong(chat.chatId), chatLog });
+    return chatLog;
+  }
+
+  /**
+   * Push KICKOUT and (by default) close the Carriage sessions afterwards.
+   */
+  pushKickout(reason = 0, { close = true }: { close?: boolean } = {}) {
+    this.push('KICKOUT', { reason });
+    if (close) {
+      for (const session of this._sessions) {
+        if (session.loggedIn) session.socket.end();
+      }
+    }
+  }
+
+  /**
+   * Drop every V2SL connection without warning (simulates a network outage).
+   */
+  dropConnections() {
+    for (const session of this._sessions) {
+      session.socket.destroy();
+    }
+  }
+
+  async _dispatch(
+    transport: 'booking' | 'v2sl',
+    session: MockSession | null,
+    packet: LocoPacket,
+    reply: (packet: LocoPacket) => void
+  ) {
+    const record: MockRequestRecord = {
+      transport,
+      method: packet.method,
+      body: packet.body,
+      at: Date.now(),
+    };
+    this.requests.push(record);
+    this.emit('request', record);
+
+    const handler = this._handlers.get(packet.method) || this._defaultHandlers[packet.method];
+    const ctx: MockRequestContext = {
+      server: this,
+      session,
+      transport,
+      method: packet.method,
+      packetId: packet.packetId,
+    };
+    let result: MockResponse;
+    try {
+      result = handler ? await handler(packet.body || {}, ctx) : undefined;
+    } catch (err) {
+      this.emit('error', err);
+      result = { status: -500 };
+    }
+    if (result === null) return;
+    const status = result ? (result.status ?? 0) : 0;
+    const body = { status, ...(result ? result.body || {} : {}) };
+    reply(new LocoPacket(packet.packetId, status, packet.method, body));
+  }
+
+  _requireChat(chatId: number | string) {
+    const chat = this._chats.get(String(normalizeIdValue(chatId)));
+    if (!chat) {
+      throw new Error(`Mock chat not found: ${chatId}`);
+    }
+    return chat;
+  }
+
+  _findChat(chatId: any) {
+    return this._chats.get(String(normalizeIdValue(chatId))) || null;
+  }
+
+  _appendChatLog(
+    chat: MockChatState,
+    { authorId, message, type, attachment, msgId }: {
+      authorId: number | string;
+      message: string;
+      type: number;
+      attachment?: string | Record<string, any>;
+      msgId?: any;
+    }
+  ) {
+    const logId = ++this._logIdCounter;
+    const prev = chat.logs[chat.logs.length - 1];
+    const chatLog: any = {
+      logId: Long.fromNumber(logId),
+      chatId: toLong(chat.chatId),
+      type,
+      authorId: toLong(authorId),
+      message,
+      sendAt: Math.floor(Date.now() / 1000),
+      attachment: attachment === undefined
+        ? '{}'
+        : (typeof attachment === 'string' ? attachment : JSON.stringify(attachment)),
+      msgId: msgId !== undefined ? toLong(msgId) : Long.fromNumber(logId),
+      prevId: prev ? prev.logId : Long.fromNumber(0),
+    };
+    chat.logs.push(chatLog);
+    return chatLog;
+  }
+
+  _memberPayload(member: MockMember) {
+    const payload: any = {
+      userId: toLong(member.userId),
+      nickName: member.nickName,
+    };
+    if (member.memberType !== undefined) payload.mt = member.memberType;
+    if (member.profileImageUrl) payload.profileImageUrl = member.profileImageUrl;
+    return payload;
+  }
+
+  _chatData(chat: MockChatState) {
+    const last = chat.logs[chat.logs.length - 1];
+    const others = [...chat.members.values()].filter((m) => String(m.userId) !== String(this.userId));
+    const data: any = {
+      c: toLong(chat.chatId),
+      t: chat.type,
+      displayMembers: others.slice(0, 4).map((m) => this._memberPayload(m)),
+      lastLogId: last ? last.logId : Long.fromNumber(0),
+      lastSeenLogId: last ? last.logId : Long.fromNumber(0),
+    };
+    if (chat.title) data.title = chat.title;
+    if (chat.linkId) data.li = toLong(chat.linkId);
+    return data;
+  }
+
+  _chatDatas() {
+    return [...this._chats.values()].map((chat) => this._chatData(chat));
+  }
+
+  _openLinks() {
+    return [...this._chats.values()]
+      .filter((chat) => chat.linkId)
+      .map((chat) => ({ li: toLong(chat.linkId), ln: chat.title }));
+  }
+
+  _handleGetConf() {
+    return {
+      body: {
+        revision: 1,
+        ticket: { lsl: [this.host], lsl6: [] },
+        wifi: { ports: [this.v2slPort] },
+        '3g': { ports: [this.v2slPort] },
+        trailerInfo: { videoTranscodingBitrate: 1000000, videoTranscodingResolution: 720 },
+        trailerHighInfo: { videoTranscodingBitrate: 2000000, videoTranscodingResolution: 1080 },
+      },
+    };
+  }
+
+  _handleLoginList(body: any, ctx: MockRequestContext) {
+    if (body.oauthToken !== this.oauthToken) {
+      return { status: -950, body: {} };
+    }
+    if (ctx.session) ctx.session.loggedIn = true;
+    return {
+      body: {
+        userId: Long.fromNumber(this.userId),
+        revision: 0,
+        chatDatas: this._chatDatas(),
+        delChatIds: [],
+        lastTokenId: 0,
+        lastChatId: 0,
+        eof: true,
+      },
+    };
+  }
+
+  _handleWrite(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const chatLog = this._appendChatLog(chat, {
+      authorId: this.userId,
+      message: body.msg || '',
+      type: safeNumber(body.type, 1),
+      attachment: body.extra,
+      msgId: body.msgId,
+    });
+    return {
+      body: {
+        chatId: chatLog.chatId,
+        logId: chatLog.logId,
+        msgId: chatLog.msgId,
+        prevId: chatLog.prevId,
+        sendAt: chatLog.sendAt,
+        chatLog,
+      },
+    };
+  }
+
+  _handleSyncMsg(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const cur = safeNumber(normalizeIdValue(body.cur), 0);
+    const max = safeNumber(normalizeIdValue(body.max), 0);
+    const cnt = safeNumber(body.cnt, 50) || 50;
+    const chatLogs = chat.logs
+      .filter((log) => {
+        const logId = log.logId.toNumber();
+        return logId > cur && (!max || logId <= max);
+      })
+      .slice(0, cnt);
+    return { body: { chatLogs, isOK: true, lastTokenId: 0 } };
+  }
+
+  _handleGetMsgs(body: any) {
+    const chatIds = Array.isArray(body.chatIds) ? body.chatIds : [];
+    const logIds = Array.isArray(body.logIds) ? body.logIds : [];
+    const chatLogs: any[] = [];
+    for (let i = 0; i < logIds.length; i += 1) {
+      const chat = this._findChat(chatIds[i] ?? chatIds[0]);
+      if (!chat) continue;
+      const wanted = String(normalizeIdValue(logIds[i]));
+      const found = chat.logs.find((log) => String(normalizeIdValue(log.logId)) === wanted);
+      if (found) chatLogs.push(found);
+    }
+    return { body: { chatLogs } };
+  }
+
+  _handleMember(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const ids = (Array.isArray(body.memberIds) ? body.memberIds : []).map((v: any) => String(normalizeIdValue(v)));
+    const members = ids
+      .map((id: string) => chat.members.get(id))
+      .filter(Boolean)
+      .map((m: MockMember) => this._memberPayload(m));
+    return { body: { chatId: toLong(chat.chatId), members } };
+  }
+
+  _handleMemList(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const members = [...chat.members.values()]
+      .filter((m) => !body.excludeMe || String(m.userId) !== String(this.userId))
+      .map((m) => this._memberPayload(m));
+    return { body: { members, token: 0 } };
+  }
+
+  _handleChatInfo(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    return { body: { chatInfo: { ...this._chatData(chat), chatId: toLong(chat.chatId) } } };
+  }
+
+  _handleChatOnRoom(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const res: any = {
+      c: toLong(chat.chatId),
+      t: chat.type,
+      m: [...chat.members.values()].map((m) => this._memberPayload(m)),
+      a: [...chat.watermarks.keys()].map((id) => toLong(id)),
+      w: [...chat.watermarks.values()].map((id) => toLong(id)),
+    };
+    if (chat.linkId) {
+      res.li = toLong(chat.linkId);
+      res.otk = 1;
+    }
+    return { body: res };
+  }
+
+  _handleInfoLink(body: any) {
+    const wanted = new Set((Array.isArray(body.lis) ? body.lis : []).map((v: any) => String(normalizeIdValue(v))));
+    return { body: { ols: this._openLinks().filter((ol) => wanted.has(String(normalizeIdValue(ol.li)))) } };
+  }
+
+  _openLinkPayload(link: MockOpenLink) {
+    const ol: any = {
+      li: toLong(link.linkId),
+      ln: link.title,
+      lu: `https://open.kakao.com/o/${link.code}`,
+      otk: 1,
+    };
+    if (link.description) ol.desc = link.description;
+    return ol;
+  }
+
+  _handleJoinInfo(body: any) {
+    const code = /\/o\/([^/?#]+)/.exec(String(body.lu || ''))?.[1];
+    const link = [...this._openLinkRegistry.values()].find((entry) => entry.code === code);
+    if (!link) return { status: -324 };
+    return { body: { ol: this._openLinkPayload(link) } };
+  }
+
+  _handleJoinLink(body: any) {
+    const link = this._openLinkRegistry.get(String(normalizeIdValue(body.li)));
+    if (!link) return { status: -324 };
+    if (link.passcode && body.pc !== link.passcode) return { status: -203 };
+    const nickName = body.ptp === 2 && body.nn ? String(body.nn) : 'me';
+    const chat = this._findChat(link.chatId) || this.addChat({
+      chatId: link.chatId,
+      type: 'OM',
+      title: link.title,
+      linkId: link.linkId,
+      members: link.members,
+    });
+    chat.members.set(String(this.userId), { userId: this.userId, nickName });
+    return { body: { chatRoom: this._chatData(chat), ol: this._openLinkPayload(link) } };
+  }
+
+  _handleDeleteMsg(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const wanted = String(normalizeIdValue(body.logId));
+    const index = chat.logs.findIndex((log) => String(normalizeIdValue(log.logId)) === wanted);
+    if (index === -1) return { status: -203 };
+    chat.logs.splice(index, 1);
+    return { body: {} };
+  }
+
+  _handleModifyMsg(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    const wanted = String(normalizeIdValue(body.logId));
+    const found = chat.logs.find((log) => String(normalizeIdValue(log.logId)) === wanted);
+    if (!found) return { status: -203 };
+    found.message = body.msg;
+    return { body: {} };
+  }
+
+  // Members are known by id only; reuse a nickname from any chat they are already in
+  _knownMember(userId: any): MockMember {
+    const key = String(normalizeIdValue(userId));
+    for (const chat of this._chats.values()) {
+      const member = chat.members.get(key);
+      if (member) return member;
+    }
+    return { userId: normalizeIdValue(userId), nickName: `user${key}` };
+  }
+
+  _handleCreate(body: any) {
+    const memberIds: any[] = Array.isArray(body.memberIds) ? body.memberIds : [];
+    if (memberIds.length === 0) return { status: -203 };
+    this._chatIdCounter += 1;
+    const chat = this.addChat({
+      chatId: this._chatIdCounter,
+      type: memberIds.length === 1 ? 'DirectChat' : 'MultiChat',
+      members: memberIds.map((id) => this._knownMember(id)),
+    });
+    return { body: { chatId: toLong(chat.chatId), chatRoom: this._chatData(chat) } };
+  }
+
+  _handleAddMem(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    if (chat.type === 'DirectChat' || chat.linkId) return { status: -203 };
+    const members = (Array.isArray(body.memberIds) ? body.memberIds : []).map((id: any) => this._knownMember(id));
+    for (const member of members) {
+      chat.members.set(String(normalizeIdValue(member.userId)), member);
+    }
+    const chatLog = this._appendChatLog(chat, {
+      authorId: this.userId,
+      message: JSON.stringify({
+        feedType: 1,
+        inviter: { userId: this.userId, nickName: 'me' },
+        members: members.map((m: MockMember) => ({ userId: normalizeIdValue(m.userId), nickName: m.nickName })),
+      }),
+      type: 0,
+    });
+    return { body: { chatId: toLong(chat.chatId), chatLog } };
+  }
+
+  _handleLeave(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    this._chats.delete(String(chat.chatId));
+    return { body: {} };
+  }
+
+  _handleSetMeta(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    if (body.type === 3) chat.title = String(body.content ?? '');
+    else if (body.type === 1) chat.notice = String(body.content ?? '');
+    return {
+      body: {
+        chatId: toLong(chat.chatId),
+        meta: { type: body.type, revision: 1, authorId: toLong(this.userId), content: body.content, updatedAt: Math.floor(Date.now() / 1000) },
+      },
+    };
+  }
+
+  _handleNotiRead(body: any) {
+    const chat = this._findChat(body.chatId);
+    if (!chat) return { status: -401 };
+    chat.watermarks.set(String(this.userId), normalizeIdValue(body.watermark));
+    return { body: {} };
+  }
+
+  _handleKickMem(body: any) {
+    const chat = this._findChat(body.c);
+    if (!chat) return { status: -401 };
+    chat.members.delete(String(normalizeIdValue(body.mid)));
+    return { body: {} };
+  }
+
+  _handleShip(body: any) {
+    const chat = this._findChat(body.c);
+    if (!chat) return { status: -401 };
+    this._uploadCounter += 1;
+    return { body: { k: `mock-upload-${this._uploadCounter}`, vh: this.host, p: this.v2slPort } };
+  }
+
+  _handlePost(body: any, ctx: MockRequestContext) {
+    if (!ctx.session) return { status: -203 };
+    const size = safeNumber(normalizeIdValue(body.s), 0);
+    ctx.session.upload = {
+      key: String(body.k || ''),
+      chatId: normalizeIdValue(body.c),
+      type: safeNumber(body.t, 2),
+      name: String(body.f || ''),
+      size,
+      remaining: size,
+    };
+    if (size <= 0) {
+      const upload = ctx.session.upload;
+      ctx.session.upload = null;
+      setImmediate(() => this._completeUpload(ctx.session!, upload));
+    }
+    return { body: { o: 0 } };
+  }
+
+  _completeUpload(session: MockSession, upload: MockUploadState) {
+    const chat = this._findChat(upload.chatId);
+    if (!chat) {
+      session.push('COMPLETE', { status: -401 });
+      return;
+    }
+    const chatLog = this._appendChatLog(chat, {
+      authorId: this.userId,
+      message: '',
+      type: upload.type,
+      attachment: { k: upload.key, s: upload.size, name: upload.name },
+    });
+    session.push('COMPLETE', { status: 0, chatId: toLong(chat.chatId), chatLog });
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  type MessageEvent,
+  type MessageContent,
+  type MessageMention,
+  type MemberTypeValue,
+  type ReactionTypeValue,
+  type SendOptions,
+  type ReplyOptions,
+  type ReactionOptions,
+  type EditMessageOptions,
+  type OpenChatKickOptions,
+  type OpenChatBlindOptions,
+} from '../types';
+import { stripMentions } from '../utils/mention';
+import { Room } from './room';
+import { type User } from './user';
+import type { KakaoForgeClient } from '../client/client';
+
+// Kept off the enumerable fields so the objects still log and serialize like plain MessageEvents
+function bindClient(target: object, client: KakaoForgeClient) {
+  Object.defineProperty(target, 'client', { value: client, enumerable: false });
+}
+
+/**
+ * Message author bound to the room the message came from.
+ */
+export class MessageSender {
+  declare readonly client: KakaoForgeClient;
+  declare readonly roomId: number | string;
+  id: number | string;
+  name: string;
+  type: MemberTypeValue;
+
+  constructor(client: KakaoForgeClient, roomId: number | string, sender: MessageEvent['sender']) {
+    bindClient(this, client);
+    Object.defineProperty(this, 'roomId', { value: roomId, enumerable: false });
+    this.id = sender.id;
+    this.name = sender.name;
+    this.type = sender.type;
+  }
+
+  /**
+   * Kick this member from the open chat (openChatKick).
+   */
+  kick(opts?: OpenChatKickOptions) {
+    return this.client.openChatKick(this.roomId, { memberId: this.id }, opts);
+  }
+}
+
+export class MessageRoom {
+  declare readonly client: KakaoForgeClient;
+  id: number | string;
+  name: string;
+  isGroupChat: boolean;
+  isOpenChat: boolean;
+  openLinkId?: number | string;
+
+  constructor(client: KakaoForgeClient, room: MessageEvent['room']) {
+    bindClient(this, client);
+    this.id = room.id;
+    this.name = room.name;
+    this.isGroupChat = room.isGroupChat;
+    this.isOpenChat = room.isOpenChat;
+    if (room.openLinkId !== undefined) this.openLinkId = room.openLinkId;
+  }
+
+  send(text: string, opts?: SendOptions) {
+    return this.client.sendMessage(this.id, text, opts);
+  }
+
+  /**
+   * Members of the room, from the member cache (refreshed first when it is stale).
+   */
+  members(): Promise<User[]> {
+    return new Room(this.client, this.id).fetchMembers();
+  }
+}
+
+/**
+ * MessageEvent with bound actions. Built instead of the plain object when `richMessages` is on,
+ * or from any MessageEvent with `client.toMessage(msg)`.
+ */
+export class Message implements MessageEvent {
+  declare readonly client: KakaoForgeClient;
+  message: MessageEvent['message'];
+  attachmentsRaw: any[];
+  content: MessageContent | null;
+  mentions: MessageMention[];
+  spoilers: Array<{ start: number; end: number }>;
+  mentionsMe: boolean;
+  sender: MessageSender;
+  room: MessageRoom;
+  raw: any;
+  backfilled?: boolean;
+  chatId: number | string;
+  senderId: number | string;
+  text: string;
+  type: number;
+  logId: number | string;
+
+  constructor(client: KakaoForgeClient, event: MessageEvent) {
+    bindClient(this, client);
+    this.message = event.message;
+    this.attachmentsRaw = event.attachmentsRaw;
+    this.content = event.content;
+    this.mentions = event.mentions;
+    this.spoilers = event.spoilers;
+    this.mentionsMe = event.mentionsMe;
+    this.sender = event.sender instanceof MessageSender
+      ? event.sender
+      : new MessageSender(client, event.room.id, event.sender);
+    this.room = event.room instanceof MessageRoom ? event.room : new MessageRoom(client, event.room);
+    this.raw = event.raw;
+    if (event.backfilled !== undefined) this.backfilled = event.backfilled;
+    this.chatId = event.chatId;
+    this.senderId = event.senderId;
+    this.text = event.text;
+    this.type = event.type;
+    this.logId = event.logId;
+  }
+
+  /**
+   * Text without mentions, e.g. the command part of '@bot help'.
+   */
+  stripMentions() {
+    return stripMentions(this);
+  }
+
+  reply(text: string, opts?: ReplyOptions) {
+    return this.client.sendReply(this.room.id, text, this, opts);
+  }
+
+  react(reactionType: ReactionTypeValue, opts?: ReactionOptions) {
+    return this.client.sendReaction(this.room.id, this, reactionType, opts);
+  }
+
+  /**
+   * Current reaction counts and reactors (getReactions).
+   */
+  reactions() {
+    return this.client.getReactions(this.room.id, this);
+  }
+
+  /**
+   * Edit this message. Only our own messages can be edited.
+   */
+  edit(text: string, opts?: EditMessageOptions) {
+    return this.client.editMessage(this.room.id, this, text, opts);
+  }
+
+  delete() {
+    return this.client.deleteMessage(this.room.id, this);
+  }
+
+  /**
+   * Hide this message in the open chat (openChatBlind).
+   */
+  blind(opts?: OpenChatBlindOptions) {
+    return this.client.openChatBlind(this.room.id, this, opts);
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  type ChatRoomInfo,
+  type MemberTypeValue,
+  type MessageEvent,
+  type SendOptions,
+  type LeaveChatOptions,
+} from '../types';
+import { normalizeIdValue, normalizeLogTarget, safeNumber, resolveRoomFlags } from '../utils';
+import { User } from './user';
+import type { KakaoForgeClient } from '../client/client';
+
+/**
+ * A chat room from the room directory. Reads the client's room and member caches on every access,
+ * so a Room kept around stays current as LOGINLIST, CHATINFO and member pushes arrive.
+ */
+export class Room {
+  declare readonly client: KakaoForgeClient;
+  readonly id: number | string;
+
+  constructor(client: KakaoForgeClient, id: number | string) {
+    Object.defineProperty(this, 'client', { value: client, enumerable: false });
+    this.id = id;
+  }
+
+  _info(): ChatRoomInfo {
+    return this.client._chatRooms.get(String(this.id)) || {};
+  }
+
+  get title() {
+    return this.client._buildRoomPayload(this.id).name;
+  }
+
+  // Raw LOCO chat type, e.g. 'DirectChat', 'MultiChat', 'OM' (open group) or 'OD' (open 1:1)
+  get type() {
+    return this._info().type || '';
+  }
+
+  get isOpenChat() {
+    return resolveRoomFlags(this._info()).isOpenChat;
+  }
+
+  get isGroupChat() {
+    return resolveRoomFlags(this._info()).isGroupChat;
+  }
+
+  get openLinkId(): number | string | undefined {
+    const info = this._info();
+    const value = normalizeIdValue(info.openLinkId || info.openChatId || info.li || 0);
+    return value || undefined;
+  }
+
+  get lastLogId() {
+    const info = this._info();
+    return Math.max(safeNumber(info.lastLogId || 0, 0), safeNumber(info.lastChatLogId || 0, 0));
+  }
+
+  get lastSeenLogId() {
+    return safeNumber(this._info().lastSeenLogId || 0, 0);
+  }
+
+  get unreadCount() {
+    return safeNumber(this._info().unreadCount || 0, 0);
+  }
+
+  // Notice set through setNotice(); not loaded from the server
+  get notice() {
+    return this._info().notice || '';
+  }
+
+  get memberIds() {
+    return this.client._getCachedMemberIds(this.id);
+  }
+
+  /**
+   * Cached members. Use fetchMembers() to load them when the cache is empty or stale.
+   */
+  get members(): User[] {
+    return this.memberIds.map((userId) => new User(this.client, this.id, userId));
+  }
+
+  get memberTypes(): Record<string, MemberTypeValue> {
+    const types: Record<string, MemberTypeValue> = {};
+    for (const userId of this.memberIds) {
+      types[String(userId)] = this.client._resolveMemberType(this.id, userId);
+    }
+    return types;
+  }
+
+  getMember(userId: number | string) {
+    const id = normalizeIdValue(userId);
+    return this.memberIds.some((memberId) => String(memberId) === String(id))
+      ? new User(this.client, this.id, id)
+      : null;
+  }
+
+  /**
+   * Refresh the member cache (only when stale unless `force`) and return the members.
+   */
+  async fetchMembers({ force = false }: { force?: boolean } = {}) {
+    if (this.isOpenChat) {
+      await this.client._ensureOpenChatInfo(this.id);
+    }
+    await this.client._fetchMemberList(this.id, { force });
+    return this.members;
+  }
+
+  send(text: string, opts?: SendOptions) {
+    return this.client.sendMessage(this.id, text, opts);
+  }
+
+  invite(userIds: Array<number | string>) {
+    return this.client.inviteMembers(this.id, userIds);
+  }
+
+  leave(opts?: LeaveChatOptions) {
+    return this.client.leaveChat(this.id, opts);
+  }
+
+  setTitle(title: string) {
+    return this.client.setRoomTitle(this.id, title);
+  }
+
+  setNotice(notice: string) {
+    return this.client.setRoomNotice(this.id, notice);
+  }
+
+  /**
+   * Mark the room read up to logId, by default up to lastLogId (markRead).
+   */
+  markRead(logId?: number | string | MessageEvent) {
+    return this.client.markRead(this.id, logId);
+  }
+
+  /**
+   * Members who have read the message at logId. Loads every member's read watermark from the server
+   * unless `cached`, which only uses what DECUNREAD pushes and earlier loads have recorded.
+   */
+  async readers(logId: number | string | MessageEvent, { cached = false }: { cached?: boolean } = {}): Promise<User[]> {
+    const watermarks = cached
+      ? this.client._getReadWatermarks(this.id)
+      : await this.client._fetchReadWatermarks(this.id);
+    const target = safeNumber(normalizeLogTarget(logId), 0);
+    const users: User[] = [];
+    for (const [userId, watermark] of watermarks || []) {
+      if (target && safeNumber(watermark, 0) >= target) {
+        users.push(new User(this.client, this.id, normalizeIdValue(userId)));
+      }
+    }
+    return users;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      title: this.title,
+      type: this.type,
+      isOpenChat: this.isOpenChat,
+      isGroupChat: this.isGroupChat,
+      openLinkId: this.openLinkId,
+      lastLogId: this.lastLogId,
+      lastSeenLogId: this.lastSeenLogId,
+      unreadCount: this.unreadCount,
+      memberIds: this.memberIds,
+    };
+  }
+}
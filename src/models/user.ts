@@ -0,0 +1,52 @@
+import { type MemberTypeValue, type OpenChatKickOptions } from '../types';
+import type { KakaoForgeClient } from '../client/client';
+
+/**
+ * A member of one room. A live view over the member caches, so it follows MEMLIST, SYNCMEMT and join/leave pushes.
+ */
+export class User {
+  declare readonly client: KakaoForgeClient;
+  readonly roomId: number | string;
+  readonly id: number | string;
+
+  constructor(client: KakaoForgeClient, roomId: number | string, id: number | string) {
+    Object.defineProperty(this, 'client', { value: client, enumerable: false });
+    this.roomId = roomId;
+    this.id = id;
+  }
+
+  get nickname() {
+    return this.client._getCachedMemberName(this.roomId, this.id);
+  }
+
+  // Same as nickname, so a User can stand in for MessageEvent['sender']
+  get name() {
+    return this.nickname;
+  }
+
+  get profileImageUrl() {
+    return this.client._getCachedMemberProfileImage(this.roomId, this.id);
+  }
+
+  get type(): MemberTypeValue {
+    return this.client._resolveMemberType(this.roomId, this.id);
+  }
+
+  get isMe() {
+    return String(this.id) === String(this.client.userId);
+  }
+
+  kick(opts?: OpenChatKickOptions) {
+    return this.client.openChatKick(this.roomId, { memberId: this.id }, opts);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      roomId: this.roomId,
+      nickname: this.nickname,
+      profileImageUrl: this.profileImageUrl,
+      type: this.type,
+    };
+  }
+}
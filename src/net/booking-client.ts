@@ -3,6 +3,7 @@ import { EventEmitter } from 'events';
 import { Long } from 'bson';
 import { LocoPacket } from '../protocol/loco-packet';
 import { LocoStream } from './loco-stream';
+import { type PacketRecorder } from './packet-capture';
 
 export const BOOKING_HOST = 'booking-loco.kakao.com';
 export const BOOKING_PORT = 443;
@@ -84,21 +85,34 @@ export class BookingClient extends EventEmitter {
   _socket: tls.TLSSocket | null;
   _stream: LocoStream;
   _pendingRequests: Map<number, any>;
+  _recorder: PacketRecorder | null;
+  _recorderSession: number;
 
   constructor() {
     super();
     this._socket = null;
     this._stream = new LocoStream();
     this._pendingRequests = new Map();
+    this._recorder = null;
+    this._recorderSession = 0;
 
     this._stream.on('packet', (packet) => this._onPacket(packet));
     this._stream.on('error', (err) => this.emit('error', err));
   }
 
-  connect(host = BOOKING_HOST, port = BOOKING_PORT): Promise<void> {
+  /**
+   * Record every inbound/outbound packet of this connection.
+   */
+  setRecorder(recorder: PacketRecorder | null) {
+    this._recorder = recorder;
+    this._recorderSession = recorder ? recorder.nextSession() : 0;
+  }
+
+  connect(host = BOOKING_HOST, port = BOOKING_PORT, tlsOpts: tls.ConnectionOptions = {}): Promise<void> {
     return new Promise((resolve, reject) => {
       this._socket = tls.connect(port, host, {
         rejectUnauthorized: true,
+        ...tlsOpts,
       });
 
       this._socket.once('secureConnect', () => {
@@ -129,6 +143,7 @@ export class BookingClient extends EventEmitter {
       const packetId = this._stream.nextPacketId();
       const packet = new LocoPacket(packetId, 0, method, body);
       const data = packet.serialize();
+      if (this._recorder) this._recorder.record('out', 'booking', this._recorderSession, packet);
 
       const timer = setTimeout(() => {
         this._pendingRequests.delete(packetId);
@@ -180,6 +195,7 @@ export class BookingClient extends EventEmitter {
   }
 
   _onPacket(packet: any) {
+    if (this._recorder) this._recorder.record('in', 'booking', this._recorderSession, packet);
     const pending = this._pendingRequests.get(packet.packetId);
     if (pending) {
       clearTimeout(pending.timer);
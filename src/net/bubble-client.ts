@@ -1,4 +1,4 @@
-import { buildAHeader, buildAuthorizationHeader, buildDeviceId, buildUserAgent, httpsPostJson } from '../auth/login';
+import { buildAHeader, buildAuthorizationHeader, buildDeviceId, buildUserAgent, httpsGet, httpsPostJson } from '../auth/login';
 
 export const BUBBLE_HOST = 'talk-pilsner.kakao.com';
 const BUBBLE_BASE = '/messaging/chats';
@@ -91,4 +91,18 @@ export class BubbleClient {
     this._captureHeaders(res);
     return res;
   }
+
+  /**
+   * Reaction counts and reactors for one message.
+   */
+  async getReactions(chatId: number | string, { logId, linkId }: { logId: number | string; linkId?: number | string }) {
+    let query = `logId=${encodeURIComponent(String(logId))}`;
+    if (linkId !== undefined && linkId !== null && linkId !== '') {
+      query += `&linkId=${encodeURIComponent(String(linkId))}`;
+    }
+    const path = `${BUBBLE_BASE}/${encodeURIComponent(String(chatId))}/bubble/reactions?${query}`;
+    const res = await httpsGet(BUBBLE_HOST, path, this._headers());
+    this._captureHeaders(res);
+    return res;
+  }
 }
@@ -2,7 +2,17 @@ import * as net from 'net';
 import { EventEmitter } from 'events';
 import { Long } from 'bson';
 import { LocoPacket, HEADER_SIZE } from '../protocol/loco-packet';
-import { V2SLCrypto } from '../crypto/v2sl';
+import { V2SLCrypto, type V2SLCryptoOptions } from '../crypto/v2sl';
+import { type PacketRecorder } from './packet-capture';
+import { LocoStatusError, isTokenExpiredStatus } from '../protocol/loco-status';
+import {
+  LOCO_RESPONSE_SCHEMAS,
+  LOCO_PUSH_SCHEMAS,
+  validateLocoBody,
+  type LocoMethod,
+  type LocoRequestBody,
+  type LocoResponse,
+} from '../protocol/loco-methods';
 
 function toLongValue(value: any) {
   if (Long.isLong(value)) return value;
@@ -28,28 +38,43 @@ export class CarriageClient extends EventEmitter {
   _recvBuffer: Buffer;
   _decryptedBuffer: Buffer;
   _pingInterval: NodeJS.Timeout | null;
+  _recorder: PacketRecorder | null;
+  _recorderSession: number;
+  validateResponses: boolean;
 
-  constructor() {
+  constructor(cryptoOpts: V2SLCryptoOptions = {}) {
     super();
     this._socket = null;
-    this._crypto = new V2SLCrypto();
+    this._crypto = new V2SLCrypto(cryptoOpts);
     this._pendingRequests = new Map();
     this._packetIdCounter = 0;
     this._recvBuffer = Buffer.alloc(0);
     this._decryptedBuffer = Buffer.alloc(0);
     this._pingInterval = null;
+    this._recorder = null;
+    this._recorderSession = 0;
+    this.validateResponses = false;
   }
 
   nextPacketId() {
     return ++this._packetIdCounter;
   }
 
+  /**
+   * Record every decrypted inbound/outbound packet of this connection.
+   */
+  setRecorder(recorder: PacketRecorder | null) {
+    this._recorder = recorder;
+    this._recorderSession = recorder ? recorder.nextSession() : 0;
+  }
+
   /**
    * Connect to the Carriage server and perform V2SL handshake.
    */
   connect(host: string, port: number, timeout = 10000, keepAliveMs = 30000): Promise<void> {
     return new Promise((resolve, reject) => {
-      this._socket = new net.Socket();
+      const socket = new net.Socket();
+      this._socket = socket;
       this._socket.setNoDelay(true);
       if (keepAliveMs && keepAliveMs > 0) {
         this._socket.setKeepAlive(true, keepAliveMs);
@@ -84,6 +109,11 @@ export class CarriageClient extends EventEmitter {
 
       this._socket.on('close', () => {
         this._stopPing();
+        // A server-side drop leaves nothing to write to: fail in-flight requests now instead of at their timeout
+        if (this._socket === socket) {
+          this._socket = null;
+          this._rejectPending(new Error('Connection closed'));
+        }
         this.emit('disconnected');
       });
     });
@@ -138,25 +168,55 @@ export class CarriageClient extends EventEmitter {
   }
 
   _onPacket(packet: any) {
+    if (this._recorder) this._recorder.record('in', 'carriage', this._recorderSession, packet);
     const pending = this._pendingRequests.get(packet.packetId);
     if (pending) {
       clearTimeout(pending.timer);
       this._pendingRequests.delete(packet.packetId);
+      if (this.validateResponses && packet.status === 0) {
+        this._validatePacket(pending.method, packet, LOCO_RESPONSE_SCHEMAS[pending.method]);
+      }
+      // LOGINLIST failures are handled by the caller during connect
+      if (pending.method !== 'LOGINLIST' && isTokenExpiredStatus(packet.status)) {
+        this.emit('authExpired', { method: pending.method, status: packet.status });
+      }
       pending.resolve(packet);
     } else {
       // Server push (MSG, COMPLETE, KICKOUT, etc.)
+      if (this.validateResponses) {
+        this._validatePacket(packet.method, packet, LOCO_PUSH_SCHEMAS[packet.method]);
+      }
       this.emit('push', packet);
     }
   }
 
+  /**
+   * Report body fields that no longer match the method schema ('schemaDrift').
+   */
+  _validatePacket(method: string, packet: any, schema: any) {
+    if (!schema) return;
+    const issues = validateLocoBody(schema, packet.body);
+    if (issues.length > 0) {
+      this.emit('schemaDrift', { method, packetId: packet.packetId, issues, body: packet.body });
+    }
+  }
+
   /**
    * Send a LOCO request and wait for the response.
+   * Methods in LocoMethodMap get typed bodies; anything else falls back to any.
    */
+  request<M extends LocoMethod>(method: M, body: LocoRequestBody<M>, timeout?: number): Promise<LocoResponse<M>>;
+  request(method: string, body?: any, timeout?: number): Promise<any>;
   request(method: string, body: any = {}, timeout = 10000): Promise<any> {
     return new Promise((resolve, reject) => {
+      if (!this._socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
       const packetId = this.nextPacketId();
       const packet = new LocoPacket(packetId, 0, method, body);
       const plaintext = packet.serialize();
+      if (this._recorder) this._recorder.record('out', 'carriage', this._recorderSession, packet);
 
       // Encrypt with V2SL
       const encrypted = this._crypto.encrypt(plaintext);
@@ -166,7 +226,7 @@ export class CarriageClient extends EventEmitter {
         reject(new Error(`Request ${method} (id=${packetId}) timed out`));
       }, timeout);
 
-      this._pendingRequests.set(packetId, { resolve, reject, timer });
+      this._pendingRequests.set(packetId, { method, resolve, reject, timer });
       this._socket.write(encrypted);
     });
   }
@@ -249,7 +309,7 @@ export class CarriageClient extends EventEmitter {
 
     const res = await this.request('WRITE', body);
     if (typeof res.status === 'number' && res.status !== 0) {
-      throw new Error(`WRITE failed: status=${res.status}`);
+      throw new LocoStatusError('WRITE', res.status, { packetId: res.packetId, body: res.body });
     }
     if (!res.body || !res.body.logId) {
       const preview = res.body ? JSON.stringify(res.body) : '(empty)';
@@ -269,7 +329,81 @@ export class CarriageClient extends EventEmitter {
     };
     const res = await this.request('DELETEMSG', body);
     if (typeof res.status === 'number' && res.status !== 0) {
-      throw new Error(`DELETEMSG failed: status=${res.status}`);
+      throw new LocoStatusError('DELETEMSG', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Mark a chat read up to `watermark` (NOTIREAD). Open chats also need the linkId.
+   */
+  async notiRead(chatId: number | string, watermark: number | string, linkId?: number | string) {
+    const toLong = toLongValue;
+    const body: any = {
+      chatId: toLong(chatId),
+      watermark: toLong(watermark),
+    };
+    if (linkId !== undefined && linkId !== null && linkId !== '' && linkId !== 0) {
+      body.linkId = toLong(linkId);
+    }
+    const res = await this.request('NOTIREAD', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('NOTIREAD', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Create a group chat, or a 1:1 chat when memberIds has a single user (CREATE).
+   */
+  async create(memberIds: Array<number | string>) {
+    const toLong = toLongValue;
+    const body = { memberIds: memberIds.map((id) => toLong(id)) };
+    const res = await this.request('CREATE', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('CREATE', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Invite members into a group chat (ADDMEM).
+   */
+  async addMem(chatId: number | string, memberIds: Array<number | string>) {
+    const toLong = toLongValue;
+    const body = {
+      chatId: toLong(chatId),
+      memberIds: memberIds.map((id) => toLong(id)),
+    };
+    const res = await this.request('ADDMEM', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('ADDMEM', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Leave a chat room (LEAVE). `block` also refuses future invites to it.
+   */
+  async leave(chatId: number | string, block = false) {
+    const toLong = toLongValue;
+    const body = { chatId: toLong(chatId), block: !!block };
+    const res = await this.request('LEAVE', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('LEAVE', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Set a chat room meta entry such as the title or notice (SETMETA).
+   */
+  async setMeta(chatId: number | string, type: number, content: string) {
+    const toLong = toLongValue;
+    const body = { chatId: toLong(chatId), type, content };
+    const res = await this.request('SETMETA', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('SETMETA', res.status, { packetId: res.packetId, body: res.body });
     }
     return res;
   }
@@ -294,7 +428,7 @@ export class CarriageClient extends EventEmitter {
     if (opts.supplement !== undefined) body.supplement = opts.supplement;
     const res = await this.request('MODIFYMSG', body);
     if (typeof res.status === 'number' && res.status !== 0) {
-      throw new Error(`MODIFYMSG failed: status=${res.status}`);
+      throw new LocoStatusError('MODIFYMSG', res.status, { packetId: res.packetId, body: res.body });
     }
     return res;
   }
@@ -408,6 +542,54 @@ export class CarriageClient extends EventEmitter {
     return await this.request('SYNCLINK', body);
   }
 
+  /**
+   * Look up an open chat by its link URL (JOININFO).
+   */
+  async joinInfo(linkUrl: string, passcode?: string) {
+    const body: any = { lu: linkUrl, ref: 'EW:' };
+    if (passcode) body.pc = passcode;
+    const res = await this.request('JOININFO', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('JOININFO', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
+  /**
+   * Join an open chat (JOINLINK). `profileType` 1 joins with the main profile, 2 with `nickname`.
+   */
+  async joinLink({
+    linkId,
+    openToken,
+    profileType,
+    nickname,
+    profileImage,
+    passcode,
+  }: {
+    linkId: number | string;
+    openToken?: number | string;
+    profileType: number;
+    nickname?: string;
+    profileImage?: string;
+    passcode?: string;
+  }) {
+    const toLong = toLongValue;
+    const body: any = {
+      li: toLong(linkId),
+      ref: 'EW:',
+      ptp: profileType,
+    };
+    if (openToken) body.tk = toLong(openToken);
+    if (nickname) body.nn = nickname;
+    if (profileImage) body.pi = profileImage;
+    if (passcode) body.pc = passcode;
+    const res = await this.request('JOINLINK', body);
+    if (typeof res.status === 'number' && res.status !== 0) {
+      throw new LocoStatusError('JOINLINK', res.status, { packetId: res.packetId, body: res.body });
+    }
+    return res;
+  }
+
   /**
    * Fetch chat room info (CHATINFO).
    */
@@ -460,7 +642,7 @@ export class CarriageClient extends EventEmitter {
     };
     const res = await this.request('KICKMEM', body);
     if (typeof res.status === 'number' && res.status !== 0) {
-      throw new Error(`KICKMEM failed: status=${res.status}`);
+      throw new LocoStatusError('KICKMEM', res.status, { packetId: res.packetId, body: res.body });
     }
     return res;
   }
@@ -498,7 +680,7 @@ export class CarriageClient extends EventEmitter {
     }
     const res = await this.request('BLIND', body);
     if (typeof res.status === 'number' && res.status !== 0) {
-      throw new Error(`BLIND failed: status=${res.status}`);
+      throw new LocoStatusError('BLIND', res.status, { packetId: res.packetId, body: res.body });
     }
     return res;
   }
@@ -531,6 +713,11 @@ export class CarriageClient extends EventEmitter {
     this._stopPing();
     const socket = this._socket;
     if (!socket) return Promise.resolve();
+    // Already closed (e.g. dropped by the server): there is no 'close' left to wait for
+    if (socket.destroyed) {
+      this._socket = null;
+      return Promise.resolve();
+    }
     return new Promise((resolve) => {
       const timer = setTimeout(() => {
         if (this._socket === socket) {
@@ -556,9 +743,13 @@ export class CarriageClient extends EventEmitter {
       this._socket.destroy();
       this._socket = null;
     }
-    for (const [id, { reject, timer }] of this._pendingRequests) {
+    this._rejectPending(new Error('Disconnected'));
+  }
+
+  _rejectPending(err: Error) {
+    for (const { reject, timer } of this._pendingRequests.values()) {
       clearTimeout(timer);
-      reject(new Error('Disconnected'));
+      reject(err);
     }
     this._pendingRequests.clear();
   }
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import { BSON, EJSON } from 'bson';
+import { type LocoPacket } from '../protocol/loco-packet';
+
+export type PacketCaptureFormat = 'jsonl' | 'bson';
+export type PacketDirection = 'in' | 'out';
+export type PacketTransport = 'booking' | 'carriage';
+
+export type PacketCaptureEntry = {
+  ts: number;
+  direction: PacketDirection;
+  transport: PacketTransport;
+  session: number;
+  packetId: number;
+  method: string;
+  status: number;
+  body: any;
+};
+
+export type PacketRecorderOptions = {
+  format?: PacketCaptureFormat;
+  redactKeys?: string[];
+};
+
+export const DEFAULT_REDACT_KEYS = ['oauthToken', 'duuid'];
+const REDACTED = '<redacted>';
+
+function isPlainObject(value: any) {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Copy a packet body with sensitive keys replaced (BSON values such as Long are kept as-is).
+ */
+export function redactPacketBody(value: any, keys: Set<string>): any {
+  if (Array.isArray(value)) return value.map((v) => redactPacketBody(v, keys));
+  if (!isPlainObject(value)) return value;
+  const out: Record<string, any> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = keys.has(key) ? REDACTED : redactPacketBody(v, keys);
+  }
+  return out;
+}
+
+export function resolveCaptureFormat(filePath: string, format?: PacketCaptureFormat): PacketCaptureFormat {
+  if (format) return format;
+  return filePath.toLowerCase().endsWith('.bson') ? 'bson' : 'jsonl';
+}
+
+/**
+ * Append-only LOCO packet capture (JSONL with canonical EJSON bodies, or concatenated BSON documents).
+ * Writes are synchronous so the file survives a crash.
+ */
+export class PacketRecorder {
+  filePath: string;
+  format: PacketCaptureFormat;
+  redactKeys: Set<string>;
+  _fd: number | null;
+  _sessionCounter: number;
+
+  constructor(filePath: string, opts: PacketRecorderOptions = {}) {
+    this.filePath = filePath;
+    this.format = resolveCaptureFormat(filePath, opts.format);
+    this.redactKeys = new Set(opts.redactKeys || DEFAULT_REDACT_KEYS);
+    this._fd = null;
+    this._sessionCounter = 0;
+  }
+
+  /**
+   * Allocate an id for one connection, so packetIds from reconnects don't collide.
+   */
+  nextSession() {
+    return ++this._sessionCounter;
+  }
+
+  record(direction: PacketDirection, transport: PacketTransport, session: number, packet: LocoPacket) {
+    const entry: PacketCaptureEntry = {
+      ts: Date.now(),
+      direction,
+      transport,
+      session,
+      packetId: packet.packetId,
+      method: packet.method,
+      status: packet.status,
+      body: redactPacketBody(packet.body || {}, this.redactKeys),
+    };
+    const data = this.format === 'bson'
+      ? Buffer.from(BSON.serialize(entry))
+      : Buffer.from(`${EJSON.stringify(entry, { relaxed: false })}\n`, 'utf-8');
+
+    try {
+      if (this._fd === null) {
+        this._fd = fs.openSync(this.filePath, 'a');
+      }
+      fs.writeSync(this._fd, data);
+    } catch (err) {
+      console.error(`[!] Packet capture write failed: ${err.message}`);
+    }
+  }
+
+  close() {
+    if (this._fd !== null) {
+      fs.closeSync(this._fd);
+      this._fd = null;
+    }
+  }
+}
+
+/**
+ * Load a capture file. Bodies come back with the same types BSON.deserialize gave the live client.
+ */
+export function readPacketCapture(filePath: string, format?: PacketCaptureFormat): PacketCaptureEntry[] {
+  const data = fs.readFileSync(filePath);
+  const entries: PacketCaptureEntry[] = [];
+
+  if (resolveCaptureFormat(filePath, format) === 'bson') {
+    let offset = 0;
+    while (offset + 4 <= data.length) {
+      const size = data.readInt32LE(offset);
+      if (size <= 0 || offset + size > data.length) {
+        throw new Error(`Truncated BSON capture at offset ${offset}`);
+      }
+      entries.push(BSON.deserialize(data.subarray(offset, offset + size)) as PacketCaptureEntry);
+      offset += size;
+    }
+    return entries;
+  }
+
+  const lines = data.toString('utf-8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const parsed = EJSON.parse(line, { relaxed: false });
+    // Round-trip through BSON so int64/int32 promotion matches live packets
+    entries.push(BSON.deserialize(BSON.serialize(parsed)) as PacketCaptureEntry);
+  }
+  return entries;
+}
@@ -0,0 +1,88 @@
+import { LocoPacket } from '../protocol/loco-packet';
+import { CarriageClient } from './carriage-client';
+import { type PacketCaptureEntry } from './packet-capture';
+
+/**
+ * Offline Carriage stand-in driven by a packet capture.
+ * Requests are answered with the recorded response for the same method (in order),
+ * and unsolicited inbound packets are exposed as pushes.
+ */
+export class ReplayCarriageClient extends CarriageClient {
+  _responses: Map<string, PacketCaptureEntry[]>;
+  _pushes: PacketCaptureEntry[];
+
+  constructor(entries: PacketCaptureEntry[]) {
+    super();
+    this._responses = new Map();
+    this._pushes = [];
+
+    const outgoing = new Map<string, PacketCaptureEntry>();
+    for (const entry of entries) {
+      if (entry.transport !== 'carriage') continue;
+      const key = `${entry.session}:${entry.packetId}`;
+      if (entry.direction === 'out') {
+        outgoing.set(key, entry);
+        continue;
+      }
+      const request = entry.packetId ? outgoing.get(key) : undefined;
+      if (request) {
+        outgoing.delete(key);
+        const queue = this._responses.get(request.method) || [];
+        queue.push(entry);
+        this._responses.set(request.method, queue);
+      } else {
+        this._pushes.push(entry);
+      }
+    }
+  }
+
+  connect(): Promise<void> {
+    this.emit('connected');
+    return Promise.resolve();
+  }
+
+  /**
+   * Register the request in the pending map and resolve it with the next recorded response.
+   * Methods without a recorded response get an empty success.
+   */
+  request(method: string, body: any = {}, timeout = 10000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const packetId = this.nextPacketId();
+      const timer = setTimeout(() => {
+        this._pendingRequests.delete(packetId);
+        reject(new Error(`Request ${method} (id=${packetId}) timed out`));
+      }, timeout);
+      this._pendingRequests.set(packetId, { method, resolve, reject, timer });
+
+      const recorded = this._responses.get(method)?.shift();
+      const response = recorded
+        ? new LocoPacket(packetId, recorded.status, method, recorded.body)
+        : new LocoPacket(packetId, 0, method, { status: 0 });
+      setImmediate(() => this._onPacket(response));
+    });
+  }
+
+  writeEncrypted(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  startPing() {}
+
+  /**
+   * Recorded response for a method without consuming it (e.g. LOGINLIST).
+   */
+  peekResponse(method: string) {
+    const recorded = this._responses.get(method)?.[0];
+    return recorded ? new LocoPacket(recorded.packetId, recorded.status, method, recorded.body) : null;
+  }
+
+  /**
+   * Recorded pushes in capture order, with their original timestamps.
+   */
+  pushes() {
+    return this._pushes.map((entry) => ({
+      ts: entry.ts,
+      packet: new LocoPacket(entry.packetId, entry.status, entry.method, entry.body),
+    }));
+  }
+}
@@ -0,0 +1,388 @@
+import { Long } from 'bson';
+
+/**
+ * int64 values arrive as number when they fit in 53 bits, Long otherwise.
+ */
+export type LocoId = number | Long;
+
+export type LocoChatLog = {
+  logId: LocoId;
+  chatId: LocoId;
+  type: number;
+  authorId: LocoId;
+  message?: string;
+  attachment?: string;
+  supplement?: string;
+  sendAt: number;
+  msgId?: LocoId;
+  prevId?: LocoId;
+  referer?: number;
+  [key: string]: any;
+};
+
+export type LocoMember = {
+  userId: LocoId;
+  nickName?: string;
+  mt?: number;
+  type?: number;
+  profileImageUrl?: string;
+  [key: string]: any;
+};
+
+export type LocoChatData = {
+  c?: LocoId;
+  chatId?: LocoId;
+  t?: string;
+  type?: string;
+  li?: LocoId;
+  lastLogId?: LocoId;
+  lastSeenLogId?: LocoId;
+  displayMembers?: LocoMember[];
+  [key: string]: any;
+};
+
+export type LocoOpenLink = {
+  li: LocoId;
+  ln?: string;
+  lu?: string;
+  [key: string]: any;
+};
+
+// ---- Requests / responses ----
+
+export type LoginListRequest = {
+  os: string;
+  appVer: string;
+  prtVer: string;
+  lang: string;
+  ntype: number;
+  duuid: string;
+  oauthToken: string;
+  chatIds: Long[];
+  maxIds: Long[];
+  lastTokenId: number | Long;
+  lbk: number;
+  bg: boolean;
+};
+
+export type LoginListResponse = {
+  userId?: LocoId;
+  revision?: number;
+  chatDatas?: LocoChatData[];
+  delChatIds?: LocoId[];
+  lastTokenId?: LocoId;
+  lastChatId?: LocoId;
+  eof?: boolean;
+  [key: string]: any;
+};
+
+export type WriteRequest = {
+  chatId: Long;
+  msg: string;
+  type: number;
+  noSeen: boolean;
+  scope: number;
+  silence: boolean;
+  msgId?: Long;
+  supplement?: string;
+  from?: string;
+  extra?: string;
+  threadId?: Long;
+  featureStat?: string;
+};
+
+export type WriteResponse = {
+  chatId: LocoId;
+  logId: LocoId;
+  msgId?: LocoId;
+  prevId?: LocoId;
+  sendAt?: number;
+  chatLog?: LocoChatLog;
+  [key: string]: any;
+};
+
+export type SyncMsgRequest = { chatId: Long; cur: Long; max: Long; cnt: number };
+export type SyncMsgResponse = {
+  chatLogs?: LocoChatLog[];
+  isOK?: boolean;
+  lastTokenId?: LocoId;
+  [key: string]: any;
+};
+
+export type GetMsgsRequest = { chatIds: Long[]; logIds: Long[] };
+export type GetMsgsResponse = { chatLogs?: LocoChatLog[]; [key: string]: any };
+
+export type MemberRequest = { chatId: Long; memberIds: Long[] };
+export type MemberResponse = { chatId?: LocoId; members: LocoMember[]; [key: string]: any };
+
+export type MemListRequest = { chatId: Long; token: Long; excludeMe: boolean };
+export type MemListResponse = { members: LocoMember[]; token?: LocoId; [key: string]: any };
+
+export type ChatInfoRequest = { chatId: Long };
+export type ChatInfoResponse = { chatInfo: LocoChatData; [key: string]: any };
+
+export type ChatOnRoomRequest = { chatId: Long; token: Long; opt: Long };
+export type ChatOnRoomResponse = {
+  c?: LocoId;
+  t?: string;
+  m?: LocoMember[];
+  li?: LocoId;
+  otk?: number;
+  // Read watermarks: a[i] has read everything up to w[i]
+  a?: LocoId[];
+  w?: LocoId[];
+  [key: string]: any;
+};
+
+export type LChatListRequest = { chatIds: Long[]; maxIds: Long[]; lastTokenId: Long; lastChatId: Long };
+export type LChatListResponse = {
+  chatDatas?: LocoChatData[];
+  lastTokenId?: LocoId;
+  lastChatId?: LocoId;
+  eof?: boolean;
+  [key: string]: any;
+};
+
+export type SyncLinkRequest = { ltk: Long };
+export type SyncLinkResponse = { ols?: LocoOpenLink[]; ltk?: LocoId; [key: string]: any };
+
+export type InfoLinkRequest = { lis: Long[] };
+export type InfoLinkResponse = { ols?: LocoOpenLink[]; [key: string]: any };
+
+export type JoinInfoRequest = { lu: string; ref: string; pc?: string };
+export type JoinInfoResponse = { ol?: LocoOpenLink; [key: string]: any };
+
+export type JoinLinkRequest = {
+  li: Long;
+  ref: string;
+  // Profile type: 1 = main KakaoTalk profile, 2 = anonymous nickname
+  ptp: number;
+  tk?: Long;
+  nn?: string;
+  pi?: string;
+  pc?: string;
+};
+export type JoinLinkResponse = { chatRoom?: LocoChatData; ol?: LocoOpenLink; [key: string]: any };
+
+export type KickMemRequest = { li: Long; c: Long; mid: Long; r: boolean };
+export type BlindRequest = { li: Long; c: Long; mid: Long; r: boolean; cli?: string; cat?: string };
+
+export type DeleteMsgRequest = { chatId: Long; logId: Long };
+export type NotiReadRequest = { chatId: Long; watermark: Long; linkId?: Long };
+
+export type CreateRequest = { memberIds: Long[]; nickName?: string };
+export type CreateResponse = { chatId: LocoId; chatRoom?: LocoChatData; [key: string]: any };
+export type AddMemRequest = { chatId: Long; memberIds: Long[] };
+export type AddMemResponse = { chatId?: LocoId; chatLog?: LocoChatLog; [key: string]: any };
+export type LeaveRequest = { chatId: Long; block: boolean };
+export type SetMetaRequest = { chatId: Long; type: number; content: string };
+export type SetMetaResponse = {
+  chatId?: LocoId;
+  meta?: { type: number; revision?: number; authorId?: LocoId; content?: string; updatedAt?: number };
+  [key: string]: any;
+};
+export type ModifyMsgRequest = {
+  chatId: Long;
+  logId: Long;
+  msg: string;
+  type: number;
+  extra?: string;
+  supplement?: string;
+};
+
+export type ShipRequest = { c: Long; s: Long; t: number; cs: string; e?: string; ex?: string };
+export type ShipResponse = { k: string; vh?: string; p?: number; [key: string]: any };
+
+export type GetTrailerRequest = { k: string; t: number };
+export type GetTrailerResponse = { vh: string; p: number; [key: string]: any };
+
+export type EmptyResponse = { [key: string]: any };
+
+export interface LocoMethodMap {
+  LOGINLIST: { request: LoginListRequest; response: LoginListResponse };
+  WRITE: { request: WriteRequest; response: WriteResponse };
+  SYNCMSG: { request: SyncMsgRequest; response: SyncMsgResponse };
+  GETMSGS: { request: GetMsgsRequest; response: GetMsgsResponse };
+  MEMBER: { request: MemberRequest; response: MemberResponse };
+  MEMLIST: { request: MemListRequest; response: MemListResponse };
+  CHATINFO: { request: ChatInfoRequest; response: ChatInfoResponse };
+  CHATONROOM: { request: ChatOnRoomRequest; response: ChatOnRoomResponse };
+  LCHATLIST: { request: LChatListRequest; response: LChatListResponse };
+  SYNCLINK: { request: SyncLinkRequest; response: SyncLinkResponse };
+  INFOLINK: { request: InfoLinkRequest; response: InfoLinkResponse };
+  JOININFO: { request: JoinInfoRequest; response: JoinInfoResponse };
+  JOINLINK: { request: JoinLinkRequest; response: JoinLinkResponse };
+  KICKMEM: { request: KickMemRequest; response: EmptyResponse };
+  BLIND: { request: BlindRequest; response: EmptyResponse };
+  DELETEMSG: { request: DeleteMsgRequest; response: EmptyResponse };
+  MODIFYMSG: { request: ModifyMsgRequest; response: EmptyResponse };
+  NOTIREAD: { request: NotiReadRequest; response: EmptyResponse };
+  CREATE: { request: CreateRequest; response: CreateResponse };
+  ADDMEM: { request: AddMemRequest; response: AddMemResponse };
+  LEAVE: { request: LeaveRequest; response: EmptyResponse };
+  SETMETA: { request: SetMetaRequest; response: SetMetaResponse };
+  SHIP: { request: ShipRequest; response: ShipResponse };
+  GETTRAILER: { request: GetTrailerRequest; response: GetTrailerResponse };
+  PING: { request: Record<string, never>; response: EmptyResponse };
+}
+
+export type LocoMethod = keyof LocoMethodMap;
+export type LocoRequestBody<M extends LocoMethod> = LocoMethodMap[M]['request'];
+export type LocoResponseBody<M extends LocoMethod> = LocoMethodMap[M]['response'] & { status?: number };
+
+export type LocoResponse<M extends LocoMethod> = {
+  packetId: number;
+  status: number;
+  method: M;
+  body: LocoResponseBody<M>;
+};
+
+// ---- Pushes ----
+
+export type MsgPush = {
+  chatId: LocoId;
+  logId?: LocoId;
+  chatLog: LocoChatLog;
+  authorNickname?: string;
+  noSeen?: boolean;
+  li?: LocoId;
+  [key: string]: any;
+};
+
+export type FeedPush = { chatId?: LocoId; chatLog: LocoChatLog; [key: string]: any };
+export type KickoutPush = { reason?: number; [key: string]: any };
+export type ChatInfoPush = { chatInfo?: LocoChatData; [key: string]: any };
+export type MemberTypePush = { chatId?: LocoId; members?: LocoMember[]; mids?: LocoId[]; mts?: number[]; [key: string]: any };
+export type CompletePush = { status?: number; chatLog?: LocoChatLog; [key: string]: any };
+export type DecUnreadPush = { chatId: LocoId; userId: LocoId; watermark: LocoId; [key: string]: any };
+
+export interface LocoPushMap {
+  MSG: MsgPush;
+  NEWMEM: FeedPush;
+  DELMEM: FeedPush;
+  SYNCDLMSG: FeedPush;
+  SYNCREWR: FeedPush;
+  KICKOUT: KickoutPush;
+  CHATINFO: ChatInfoPush;
+  SYNCMEMT: MemberTypePush;
+  COMPLETE: CompletePush;
+  DECUNREAD: DecUnreadPush;
+}
+
+export type LocoPushMethod = keyof LocoPushMap;
+
+// ---- Runtime schemas (debug validation) ----
+
+export type LocoFieldType = 'id' | 'number' | 'string' | 'boolean' | 'array' | 'object';
+
+export type LocoFieldSpec =
+  | LocoFieldType
+  | `${LocoFieldType}?`
+  | { type: LocoFieldType; optional?: boolean; items?: LocoSchema; fields?: LocoSchema };
+
+export type LocoSchema = Record<string, LocoFieldSpec>;
+
+const CHAT_LOG_SCHEMA: LocoSchema = {
+  logId: 'id',
+  chatId: 'id',
+  type: 'number',
+  authorId: 'id',
+  message: 'string?',
+  attachment: 'string?',
+  sendAt: 'number',
+};
+
+const MEMBER_SCHEMA: LocoSchema = {
+  userId: 'id',
+  nickName: 'string?',
+};
+
+const OPEN_LINK_SCHEMA: LocoSchema = {
+  li: 'id',
+};
+
+const CHAT_LOGS: LocoFieldSpec = { type: 'array', optional: true, items: CHAT_LOG_SCHEMA };
+const MEMBERS: LocoFieldSpec = { type: 'array', items: MEMBER_SCHEMA };
+const OPEN_LINKS: LocoFieldSpec = { type: 'array', optional: true, items: OPEN_LINK_SCHEMA };
+
+export const LOCO_RESPONSE_SCHEMAS: Partial<Record<LocoMethod, LocoSchema>> = {
+  LOGINLIST: { chatDatas: 'array?' },
+  WRITE: { chatId: 'id', logId: 'id', chatLog: { type: 'object', optional: true, fields: CHAT_LOG_SCHEMA } },
+  SYNCMSG: { chatLogs: CHAT_LOGS },
+  GETMSGS: { chatLogs: CHAT_LOGS },
+  MEMBER: { members: MEMBERS },
+  MEMLIST: { members: MEMBERS },
+  CHATINFO: { chatInfo: 'object' },
+  CHATONROOM: { m: { type: 'array', optional: true, items: MEMBER_SCHEMA } },
+  LCHATLIST: { chatDatas: 'array?' },
+  SYNCLINK: { ols: OPEN_LINKS },
+  INFOLINK: { ols: OPEN_LINKS },
+  JOININFO: { ol: { type: 'object', fields: OPEN_LINK_SCHEMA } },
+  JOINLINK: { chatRoom: 'object' },
+  SHIP: { k: 'string' },
+  GETTRAILER: { vh: 'string', p: 'number' },
+  CREATE: { chatId: 'id', chatRoom: 'object?' },
+};
+
+export const LOCO_PUSH_SCHEMAS: Partial<Record<LocoPushMethod, LocoSchema>> = {
+  MSG: { chatId: 'id', chatLog: { type: 'object', fields: CHAT_LOG_SCHEMA } },
+  NEWMEM: { chatLog: { type: 'object', fields: CHAT_LOG_SCHEMA } },
+  DELMEM: { chatLog: { type: 'object', fields: CHAT_LOG_SCHEMA } },
+  KICKOUT: { reason: 'number?' },
+  DECUNREAD: { chatId: 'id', userId: 'id', watermark: 'id' },
+};
+
+function describeType(value: any) {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Long.isLong(value)) return 'Long';
+  return typeof value;
+}
+
+function matchesType(value: any, type: LocoFieldType) {
+  switch (type) {
+    case 'id':
+      return (typeof value === 'number' && Number.isFinite(value)) || Long.isLong(value) || typeof value === 'bigint';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check a body against a schema. Returns human-readable issues (empty when it matches).
+ */
+export function validateLocoBody(schema: LocoSchema, body: any, path = ''): string[] {
+  const issues: string[] = [];
+  const target = body || {};
+  for (const [key, rawSpec] of Object.entries(schema)) {
+    const spec = typeof rawSpec === 'string'
+      ? { type: rawSpec.replace('?', '') as LocoFieldType, optional: rawSpec.endsWith('?') }
+      : rawSpec;
+    const fieldPath = path ? `${path}.${key}` : key;
+    const value = target[key];
+    if (value === undefined || value === null) {
+      if (!spec.optional) issues.push(`${fieldPath}: expected ${spec.type}, got ${describeType(value)}`);
+      continue;
+    }
+    if (!matchesType(value, spec.type)) {
+      issues.push(`${fieldPath}: expected ${spec.type}, got ${describeType(value)}`);
+      continue;
+    }
+    if ('fields' in spec && spec.fields) {
+      issues.push(...validateLocoBody(spec.fields, value, fieldPath));
+    }
+    if ('items' in spec && spec.items) {
+      value.forEach((item: any, index: number) => {
+        issues.push(...validateLocoBody(spec.items!, item, `${fieldPath}[${index}]`));
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,61 @@
+export type LocoStatusCode =
+  | 'SUCCESS'
+  | 'INVALID_PARAMETER'
+  | 'SPAM_LIMIT'
+  | 'NOT_MEMBER'
+  | 'BLOCKED'
+  | 'TOKEN_EXPIRED'
+  | 'UPDATE_REQUIRED'
+  | 'UNKNOWN';
+
+export type LocoStatusInfo = {
+  code: LocoStatusCode;
+  reason: string;
+  retryable: boolean;
+};
+
+// Only statuses the client has actually run into; anything else is UNKNOWN and not retried.
+// The outbox and send scheduler retry on `retryable`, so add entries here only once they are confirmed.
+export const LOCO_STATUS_TABLE: Record<number, LocoStatusInfo> = {
+  0: { code: 'SUCCESS', reason: 'Success', retryable: false },
+  [-203]: { code: 'INVALID_PARAMETER', reason: 'Invalid parameter', retryable: false },
+  [-303]: { code: 'SPAM_LIMIT', reason: 'Anti-spam rate limit', retryable: true },
+  [-401]: { code: 'NOT_MEMBER', reason: 'Invalid chat room or not a member', retryable: false },
+  [-402]: { code: 'BLOCKED', reason: 'Blocked by the other user', retryable: false },
+  [-950]: { code: 'TOKEN_EXPIRED', reason: 'Access token expired or invalid', retryable: false },
+  [-999]: { code: 'UPDATE_REQUIRED', reason: 'Client update required (appVer too old)', retryable: false },
+};
+
+export function describeLocoStatus(status: number): LocoStatusInfo {
+  return LOCO_STATUS_TABLE[status] || { code: 'UNKNOWN', reason: `Unknown status ${status}`, retryable: false };
+}
+
+export function isTokenExpiredStatus(status: number) {
+  return describeLocoStatus(status).code === 'TOKEN_EXPIRED';
+}
+
+/**
+ * Non-zero LOCO status returned for a request.
+ */
+export class LocoStatusError extends Error {
+  method: string;
+  status: number;
+  packetId: number;
+  body: any;
+  code: LocoStatusCode;
+  reason: string;
+  retryable: boolean;
+
+  constructor(method: string, status: number, { packetId = 0, body = null }: { packetId?: number; body?: any } = {}) {
+    const info = describeLocoStatus(status);
+    super(`${method} failed: status=${status} (${info.code}: ${info.reason})`);
+    this.name = 'LocoStatusError';
+    this.method = method;
+    this.status = status;
+    this.packetId = packetId;
+    this.body = body;
+    this.code = info.code;
+    this.reason = info.reason;
+    this.retryable = info.retryable;
+  }
+}
@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parsed contents of a JSON file, or null when it does not exist or cannot be parsed.
+ * `label` names the file in the warning for an unreadable file.
+ */
+export async function readJsonFile(filePath: string, label: string): Promise<any> {
+  let data: string;
+  try {
+    data = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (err) {
+    console.warn(`[!] Ignoring unreadable ${label} file ${filePath}: ${err.message}`);
+    return null;
+  }
+}
+
+/**
+ * Write `value` as JSON to a temp file and rename it into place, so a crash never leaves a half-written file.
+ */
+export async function writeJsonFileAtomic(filePath: string, value: any) {
+  const tmpPath = `${filePath}.tmp`;
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tmpPath, JSON.stringify(value), 'utf-8');
+  await fs.promises.rename(tmpPath, filePath);
+}
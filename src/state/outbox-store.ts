@@ -0,0 +1,75 @@
+import * as path from 'path';
+import { readJsonFile, writeJsonFileAtomic } from './json-file';
+
+/**
+ * One queued WRITE. `id` is the client msgId, which stays the same across retries and restarts.
+ */
+export type OutboxItem = {
+  id: string;
+  msgId: number | string;
+  chatId: number | string;
+  text: string;
+  type: number;
+  opts: Record<string, any>;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+export type OutboxSentEvent = {
+  item: OutboxItem;
+  logId: number | string;
+  // True when the send was confirmed by the server echoing our msgId rather than a WRITE response
+  echoed: boolean;
+  response: any;
+};
+
+export type OutboxFailedEvent = {
+  item: OutboxItem;
+  error: Error;
+};
+
+export interface OutboxStore {
+  load(): Promise<OutboxItem[]>;
+  save(items: OutboxItem[]): Promise<void>;
+}
+
+/**
+ * Default store: items survive reconnects but not a process restart.
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  _items: OutboxItem[];
+
+  constructor() {
+    this._items = [];
+  }
+
+  async load() {
+    return JSON.parse(JSON.stringify(this._items));
+  }
+
+  async save(items: OutboxItem[]) {
+    this._items = JSON.parse(JSON.stringify(items));
+  }
+}
+
+/**
+ * Outbox in a JSON file, rewritten whenever an item is added, retried or settled.
+ */
+export class JsonFileOutboxStore implements OutboxStore {
+  filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load() {
+    const items = await readJsonFile(this.filePath, 'outbox');
+    return Array.isArray(items) ? items as OutboxItem[] : [];
+  }
+
+  async save(items: OutboxItem[]) {
+    await writeJsonFileAtomic(this.filePath, items);
+  }
+}
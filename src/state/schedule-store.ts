@@ -0,0 +1,79 @@
+import * as path from 'path';
+import { type ScheduleCatchUp, type ScheduledMessage } from '../types';
+import { readJsonFile, writeJsonFileAtomic } from './json-file';
+
+/**
+ * Persisted form of a schedule. Builders are not stored; only `message` survives a restart.
+ */
+export type ScheduleRecord = {
+  id: string;
+  chatId: number | string;
+  at?: number;
+  cron?: string;
+  timeZone: string;
+  catchUp?: ScheduleCatchUp;
+  message?: ScheduledMessage;
+  // 0 once a one-off schedule has run
+  nextRunAt: number;
+  lastRunAt: number;
+  runs: number;
+  createdAt: number;
+};
+
+export type ScheduleRunEvent = {
+  schedule: ScheduleRecord;
+  // When the occurrence was due; later than this when caught up after downtime
+  dueAt: number;
+  missed: boolean;
+  result: any;
+};
+
+export type ScheduleErrorEvent = {
+  schedule: ScheduleRecord;
+  dueAt: number;
+  error: Error;
+};
+
+export interface ScheduleStore {
+  load(): Promise<ScheduleRecord[]>;
+  save(records: ScheduleRecord[]): Promise<void>;
+}
+
+/**
+ * Default store: schedules last until the process exits.
+ */
+export class MemoryScheduleStore implements ScheduleStore {
+  _records: ScheduleRecord[];
+
+  constructor() {
+    this._records = [];
+  }
+
+  async load() {
+    return JSON.parse(JSON.stringify(this._records));
+  }
+
+  async save(records: ScheduleRecord[]) {
+    this._records = JSON.parse(JSON.stringify(records));
+  }
+}
+
+/**
+ * Schedules in a JSON file, rewritten after every run and every change.
+ */
+export class JsonFileScheduleStore implements ScheduleStore {
+  filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load() {
+    const records = await readJsonFile(this.filePath, 'schedule');
+    return Array.isArray(records) ? records as ScheduleRecord[] : [];
+  }
+
+  async save(records: ScheduleRecord[]) {
+    await writeJsonFileAtomic(this.filePath, records);
+  }
+}
@@ -0,0 +1,83 @@
+import * as path from 'path';
+import { Long } from 'bson';
+import { normalizeIdValue } from '../utils/helpers';
+import { type ChatRoomInfo, type ChatListCursor } from '../types';
+import { readJsonFile, writeJsonFileAtomic } from './json-file';
+
+export const CLIENT_STATE_VERSION = 1;
+
+/**
+ * Everything the client needs to resume after a restart without re-fetching rooms and members.
+ */
+export type ClientStateSnapshot = {
+  version: number;
+  userId: number | string;
+  savedAt: number;
+  chatRooms: Record<string, ChatRoomInfo>;
+  memberNames: Record<string, Record<string, string>>;
+  memberTypes: Record<string, Record<string, number>>;
+  memberProfileImages?: Record<string, Record<string, string>>;
+  memberCacheUpdatedAt: Record<string, number>;
+  openLinkInfo: Record<string, { name: string }>;
+  chatListCursor: ChatListCursor;
+  openLinkSyncToken: number;
+};
+
+export interface StateStore {
+  load(): Promise<ClientStateSnapshot | null>;
+  save(snapshot: ClientStateSnapshot): Promise<void>;
+}
+
+/**
+ * Deep copy with BSON Longs turned into numbers (or digit strings when unsafe), so the result is plain JSON.
+ */
+export function toPlainState(value: any): any {
+  if (Long.isLong(value)) return normalizeIdValue(value);
+  if (Array.isArray(value)) return value.map(toPlainState);
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== undefined) out[key] = toPlainState(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Default store: keeps the last snapshot in memory (nothing survives the process).
+ */
+export class MemoryStateStore implements StateStore {
+  _snapshot: ClientStateSnapshot | null;
+
+  constructor(initial: ClientStateSnapshot | null = null) {
+    this._snapshot = initial;
+  }
+
+  async load() {
+    return this._snapshot ? JSON.parse(JSON.stringify(this._snapshot)) : null;
+  }
+
+  async save(snapshot: ClientStateSnapshot) {
+    this._snapshot = JSON.parse(JSON.stringify(snapshot));
+  }
+}
+
+/**
+ * Snapshot in a JSON file, replaced atomically on every save.
+ */
+export class JsonFileStateStore implements StateStore {
+  filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load() {
+    return (await readJsonFile(this.filePath, 'state')) as ClientStateSnapshot | null;
+  }
+
+  async save(snapshot: ClientStateSnapshot) {
+    await writeJsonFileAtomic(this.filePath, snapshot);
+  }
+}
@@ -0,0 +1,49 @@
+import { type MessageEvent } from './events';
+import { type ChatModule } from './config';
+import { type SendOptions } from './options';
+
+export type CommandArgType = 'string' | 'number' | 'integer' | 'boolean' | 'mention' | 'rest';
+
+export type CommandArgSpec = {
+  name: string;
+  type?: CommandArgType;
+  optional?: boolean;
+  default?: any;
+  description?: string;
+};
+
+export type CommandPermission = 'owner' | 'manager';
+
+export type CommandContext = {
+  name: string;
+  prefix: string;
+  command: CommandDefinition;
+  args: Record<string, any>;
+  rawArgs: string[];
+  msg: MessageEvent;
+  chat: ChatModule;
+  reply: (text: string, opts?: SendOptions) => Promise<any>;
+};
+
+export type CommandDefinition = {
+  name: string;
+  aliases?: string[];
+  prefixes?: string[];
+  description?: string;
+  args?: CommandArgSpec[];
+  // Owner/Manager only, from the sender's open chat member type
+  permission?: CommandPermission;
+  cooldownMs?: number;
+  hidden?: boolean;
+  run: (ctx: CommandContext) => any;
+};
+
+export type CommandDeniedReason = 'usage' | 'permission' | 'cooldown';
+
+export type CommandDeniedEvent = {
+  reason: CommandDeniedReason;
+  command: CommandDefinition;
+  msg: MessageEvent;
+  error?: Error;
+  retryAfterMs?: number;
+};
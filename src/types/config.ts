@@ -1,6 +1,6 @@
 import { type MemberTypeValue } from './member-type';
-import { type ReactionTypeValue } from './reaction';
-import { type MemberAction, type MessageEvent, type MemberEvent, type DeleteEvent, type HideEvent } from './events';
+import { type ReactionTypeValue, type ReactionSummary } from './reaction';
+import { type MemberAction, type MessageEvent, type MemberEvent, type DeleteEvent, type HideEvent, type EditEvent, type ReactionEvent, type ReadEvent } from './events';
 import {
   type SendOptions,
   type ReplyTarget,
@@ -9,13 +9,23 @@ import {
   type OpenChatKickOptions,
   type OpenChatBlindOptions,
   type EditMessageOptions,
+  type JoinOpenChatOptions,
   type UploadOptions,
   type UploadResult,
   type AttachmentInput,
   type AttachmentSendOptions,
   type VideoQuality,
+  type SendRateLimit,
+  type ScheduleCatchUp,
 } from './options';
 import { type LocationPayload, type SchedulePayload, type ContactPayload, type ProfilePayload } from './payloads';
+import { type OpenLinkInfo } from './open-link';
+import { type V2SLCipher } from '../crypto/v2sl';
+import { type PacketCaptureFormat } from '../net/packet-capture';
+import { type StateStore } from '../state/state-store';
+import { type OutboxStore } from '../state/outbox-store';
+import { type ScheduleStore } from '../state/schedule-store';
+import { type Room } from '../models/room';
 
 export type KakaoForgeConfig = {
   userId?: number;
@@ -25,6 +35,10 @@ export type KakaoForgeConfig = {
   autoConnect?: boolean;
   autoReconnect?: boolean;
   sendIntervalMs?: number;
+  sendRateLimit?: Partial<SendRateLimit>;
+  uploadRateLimit?: Partial<SendRateLimit>;
+  sendThrottleBackoffMs?: number;
+  sendThrottleRecoverMs?: number;
   reconnectMinDelayMs?: number;
   reconnectMaxDelayMs?: number;
   memberCacheTtlMs?: number;
@@ -52,6 +66,39 @@ export type KakaoForgeConfig = {
   ffmpegPath?: string;
   ffprobePath?: string;
   feedTypeMap?: Record<number, MemberAction>;
+  bookingHost?: string;
+  bookingPort?: number;
+  bookingCa?: string | Buffer;
+  v2slPublicKey?: string | Buffer;
+  v2slCipher?: V2SLCipher;
+  captureFile?: string;
+  captureFormat?: PacketCaptureFormat;
+  captureRedactKeys?: string[];
+  gapFill?: boolean;
+  gapFillMaxRooms?: number;
+  gapFillMaxPages?: number;
+  messageDedupeSize?: number;
+  messageDedupeTtlMs?: number;
+  // Build Message objects with reply/react/edit/... instead of plain MessageEvents
+  richMessages?: boolean;
+  // Mark a room read (NOTIREAD) up to its newest live message once its message handlers have settled
+  autoMarkRead?: boolean;
+  commandPrefixes?: string[];
+  commandHelp?: boolean;
+  stateStore?: StateStore;
+  statePath?: string;
+  stateCheckpointIntervalMs?: number;
+  // true for an in-memory outbox, or a custom store; outboxPath keeps it in a JSON file
+  outbox?: boolean | OutboxStore;
+  outboxPath?: string;
+  outboxMaxAttempts?: number;
+  outboxRetryBaseMs?: number;
+  outboxRetryMaxMs?: number;
+  scheduleStore?: ScheduleStore;
+  schedulePath?: string;
+  scheduleCatchUp?: ScheduleCatchUp;
+  scheduleMissedGraceMs?: number;
+  scheduleMaxCatchUp?: number;
 };
 
 export type AuthFile = {
@@ -61,6 +108,7 @@ export type AuthFile = {
   deviceUuid?: string;
   refreshToken?: string;
   savedAt?: string;
+  raw?: any;
 };
 
 export type AuthPayload = {
@@ -78,6 +126,7 @@ export type ChatModule = {
   sendReply: (chatId: number | string, text: string, replyTo: ReplyTarget | MessageEvent | any, opts?: ReplyOptions) => Promise<any>;
   sendThreadReply: (chatId: number | string, threadId: number | string, text: string, opts?: SendOptions) => Promise<any>;
   sendReaction: (chatId: number | string, target: any, reactionType: ReactionTypeValue, opts?: ReactionOptions) => Promise<any>;
+  getReactions: (chatId: number | string, target: any, opts?: Pick<ReactionOptions, 'linkId'>) => Promise<ReactionSummary>;
   openChatKick: (chatId: number | string, target: any, opts?: OpenChatKickOptions) => Promise<any>;
   openChatBlind: (chatId: number | string, target: any, opts?: OpenChatBlindOptions) => Promise<any>;
   fetchMessage: (chatId: number | string, logId: number | string) => Promise<MessageEvent>;
@@ -88,6 +137,7 @@ export type ChatModule = {
   ) => Promise<MessageEvent[]>;
   getUsernameById: (chatId: number | string, userId: number | string) => Promise<string>;
   deleteMessage: (chatId: number | string, target: any) => Promise<any>;
+  markRead: (chatId: number | string, logId?: number | string | MessageEvent) => Promise<any>;
   editMessage: (chatId: number | string, target: any, text: string, opts?: EditMessageOptions) => Promise<any>;
   send: (chatId: number | string, text: string, opts?: SendOptions) => Promise<any>;
   mention: (userId: number | string, nameOrChatId?: string | number, chatId?: number | string) => string;
@@ -112,6 +162,12 @@ export type ChatModule = {
   type?: MemberTypeValue;
 };
 
+export type OpenChatModule = {
+  resolveLink: (url: string, opts?: Pick<JoinOpenChatOptions, 'passcode'>) => Promise<OpenLinkInfo>;
+  join: (target: number | string | OpenLinkInfo, opts?: JoinOpenChatOptions) => Promise<Room>;
+  leave: (chatId: number | string) => Promise<any>;
+};
+
 export type ChatRoomInfo = {
   chatId?: number | string;
   type?: string;
@@ -129,6 +185,8 @@ export type ChatRoomInfo = {
   lastChatLogId?: number;
   lastSeenLogId?: number;
   lastLogId?: number;
+  unreadCount?: number;
+  notice?: string;
 };
 
 export type ChatListCursor = {
@@ -140,5 +198,22 @@ export type MessageHandler = ((chat: ChatModule, msg: MessageEvent) => void) | (
 export type MemberEventHandler = ((chat: ChatModule, evt: MemberEvent) => void) | ((evt: MemberEvent) => void);
 export type DeleteEventHandler = ((chat: ChatModule, evt: DeleteEvent) => void) | ((evt: DeleteEvent) => void);
 export type HideEventHandler = ((chat: ChatModule, evt: HideEvent) => void) | ((evt: HideEvent) => void);
+export type EditEventHandler = ((chat: ChatModule, evt: EditEvent) => void) | ((evt: EditEvent) => void);
+export type ReactionEventHandler = ((chat: ChatModule, evt: ReactionEvent) => void) | ((evt: ReactionEvent) => void);
+export type ReadEventHandler = ((chat: ChatModule, evt: ReadEvent) => void) | ((evt: ReadEvent) => void);
+export type EventHandler = (...args: any[]) => any;
+
+export type EventType = 'message' | MemberAction | 'delete' | 'hide' | 'edit' | 'reaction' | 'read';
+
+export type EventContext =
+  | { type: 'message'; event: MessageEvent; chat: ChatModule }
+  | { type: MemberAction; event: MemberEvent; chat: ChatModule }
+  | { type: 'delete'; event: DeleteEvent; chat: ChatModule }
+  | { type: 'hide'; event: HideEvent; chat: ChatModule }
+  | { type: 'edit'; event: EditEvent; chat: ChatModule }
+  | { type: 'reaction'; event: ReactionEvent; chat: ChatModule }
+  | { type: 'read'; event: ReadEvent; chat: ChatModule };
+
+export type EventMiddleware = (ctx: EventContext, next: () => Promise<void>) => Promise<void> | void;
 
 export type MemberNameCache = Map<string, Map<string, string>>;
@@ -0,0 +1,141 @@
+import { type MessageType } from './message';
+
+/**
+ * Typed view of a received message's attachment, keyed on its MessageType.
+ * Fields are only set when the attachment carries them; `attachmentsRaw` still has everything.
+ */
+export type TextContent = {
+  type: typeof MessageType.Text;
+  text: string;
+};
+
+export type PhotoInfo = {
+  key?: string;
+  url?: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  mime?: string;
+  checksum?: string;
+};
+
+export type PhotoContent = PhotoInfo & {
+  type: typeof MessageType.Photo;
+};
+
+export type MultiPhotoContent = {
+  type: typeof MessageType.MultiPhoto;
+  photos: PhotoInfo[];
+};
+
+export type VideoContent = {
+  type: typeof MessageType.Video;
+  key?: string;
+  token?: string;
+  tokenHigh?: string;
+  url?: string;
+  urlHigh?: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  // Seconds
+  duration?: number;
+  size?: number;
+  mime?: string;
+};
+
+export type AudioContent = {
+  type: typeof MessageType.Audio;
+  key?: string;
+  url?: string;
+  // Seconds
+  duration?: number;
+  size?: number;
+};
+
+export type FileContent = {
+  type: typeof MessageType.File;
+  key?: string;
+  url?: string;
+  name: string;
+  size?: number;
+  mime?: string;
+  // Epoch ms after which the server no longer serves the file
+  expireAt?: number;
+};
+
+export type ContactContent = {
+  type: typeof MessageType.Contact;
+  name: string;
+  phones: string[];
+  email?: string;
+  // vCard file URL
+  url?: string;
+};
+
+export type LocationContent = {
+  type: typeof MessageType.Location;
+  lat: number;
+  lng: number;
+  address?: string;
+  title?: string;
+  isCurrent?: boolean;
+  placeId?: string;
+};
+
+export type ProfileContent = {
+  type: typeof MessageType.Profile;
+  userId: number | string;
+  nickName?: string;
+  profileImageUrl?: string;
+  fullProfileImageUrl?: string;
+  statusMessage?: string;
+  accessPermit?: string;
+};
+
+export type ScheduleContent = {
+  type: typeof MessageType.Schedule;
+  title: string;
+  // Epoch ms
+  eventAt?: number;
+  alarmAt?: number;
+  postId?: string;
+  scheduleId?: string;
+  subtype?: number;
+};
+
+export type LinkContent = {
+  type: typeof MessageType.Link;
+  url?: string;
+  text?: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+};
+
+export type ReplyContent = {
+  type: typeof MessageType.Reply;
+  text: string;
+  replyTo: {
+    logId: number | string;
+    userId: number | string;
+    text: string;
+    type: number;
+    linkId?: number | string;
+  };
+};
+
+export type MessageContent =
+  | TextContent
+  | PhotoContent
+  | MultiPhotoContent
+  | VideoContent
+  | AudioContent
+  | FileContent
+  | ContactContent
+  | LocationContent
+  | ProfileContent
+  | ScheduleContent
+  | LinkContent
+  | ReplyContent;
@@ -1,4 +1,6 @@
 import { type MemberTypeValue } from './member-type';
+import { type MessageContent } from './content';
+import { type ReactionTypeValue } from './reaction';
 
 export type TransportMode = 'loco' | null;
 
@@ -10,6 +12,12 @@ export type MessageEvent = {
     logId: number | string;
   };
   attachmentsRaw: any[];
+  // Typed attachment, or null for message types without one
+  content: MessageContent | null;
+  // Names come from the member cache when it has them
+  mentions: MessageMention[];
+  spoilers: Array<{ start: number; end: number }>;
+  mentionsMe: boolean;
   sender: {
     id: number | string;
     name: string;
@@ -23,6 +31,8 @@ export type MessageEvent = {
     openLinkId?: number | string;
   };
   raw: any;
+  // Recovered by SYNCMSG after a reconnect rather than pushed live
+  backfilled?: boolean;
   // Legacy aliases for compatibility
   chatId: number | string;
   senderId: number | string;
@@ -31,6 +41,12 @@ export type MessageEvent = {
   logId: number | string;
 };
 
+export type MessageMention = {
+  userId: number | string;
+  name: string;
+  ranges: Array<{ start: number; end: number }>;
+};
+
 export type MemberAction = 'join' | 'leave' | 'invite' | 'kick';
 
 export type MemberEvent = {
@@ -88,3 +104,50 @@ export type HideEvent = {
   chatId: number | string;
   logId: number | string;
 };
+
+export type EditEvent = {
+  type: 'edit';
+  room: MessageEvent['room'];
+  // Author of the message (only the author can edit)
+  actor: MessageEvent['sender'];
+  message: {
+    id: number | string;
+    logId: number | string;
+  };
+  text: string;
+  // Text before the edit, when the message is still in the local cache
+  previousText?: string;
+  raw: any;
+  chatId: number | string;
+  logId: number | string;
+};
+
+export type ReactionEvent = {
+  type: 'reaction';
+  room: MessageEvent['room'];
+  // Member who reacted
+  actor: MessageEvent['sender'];
+  message: {
+    id: number | string;
+    logId: number | string;
+  };
+  userId: number | string;
+  // Reaction that was added or taken back (CANCEL when the push does not say which)
+  reaction: ReactionTypeValue;
+  added: boolean;
+  raw: any;
+  chatId: number | string;
+  logId: number | string;
+};
+
+export type ReadEvent = {
+  type: 'read';
+  room: MessageEvent['room'];
+  // Member who read the room
+  actor: MessageEvent['sender'];
+  userId: number | string;
+  // The member has read everything up to this logId
+  watermark: number | string;
+  raw: any;
+  chatId: number | string;
+};
@@ -1,8 +1,12 @@
 // Re-export all types from individual modules
 export * from './message';
+export * from './content';
 export * from './reaction';
 export * from './member-type';
+export * from './room-meta';
+export * from './open-link';
 export * from './events';
 export * from './options';
 export * from './payloads';
 export * from './config';
+export * from './command';
@@ -10,6 +10,7 @@ export const MessageType = {
   Profile: 17,
   File: 18,
   Reply: 26,
+  MultiPhoto: 27,
 } as const;
 
 export type MessageTypeValue = typeof MessageType[keyof typeof MessageType] | number;
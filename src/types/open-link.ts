@@ -0,0 +1,15 @@
+/**
+ * Open chat link metadata, from resolveOpenLink() or a JOINLINK response.
+ */
+export type OpenLinkInfo = {
+  linkId: number | string;
+  url: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  // Member limit of the open chat
+  memberLimit?: number;
+  // Sent back with JOINLINK
+  openToken?: number | string;
+  raw: any;
+};
@@ -1,4 +1,5 @@
 import { Long } from 'bson';
+import { type MessageEvent } from './events';
 
 export type MentionInput = {
   userId?: number | string;
@@ -36,6 +37,8 @@ export type SendOptions = {
   type?: number;
   mentions?: MentionInput[];
   spoilers?: SpoilerInput[];
+  // Send scheduler lane; moderation actions use 'high'
+  priority?: SendPriority;
 };
 
 export type ReplyTarget = {
@@ -68,6 +71,26 @@ export type OpenChatBlindOptions = OpenChatKickOptions & {
   category?: string;
 };
 
+export type CreateChatOptions = {
+  // Set right after creation (group chats only)
+  title?: string;
+};
+
+export type LeaveChatOptions = {
+  // Refuse future invites to this room
+  block?: boolean;
+};
+
+export type JoinOpenChatOptions = {
+  // Join anonymously under this nickname instead of the main KakaoTalk profile
+  profile?: {
+    nickname: string;
+    profileImageUrl?: string;
+  };
+  // Passcode of a protected open chat
+  passcode?: string;
+};
+
 export type EditMessageOptions = {
   type?: number;
   extra?: string | Record<string, any> | any[];
@@ -140,3 +163,87 @@ export type AttachmentInput = Record<string, any> | any[] | string | UploadResul
 export type AttachmentSendOptions = SendOptions & UploadOptions & {
   text?: string;
 };
+
+export type MessageFilter = (msg: MessageEvent) => boolean | Promise<boolean>;
+
+export type AwaitMessageOptions = {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Hide the matched message from onMessage handlers and middleware
+  consume?: boolean;
+};
+
+export type MessageCollectorOptions = {
+  max?: number;
+  idle?: number;
+  signal?: AbortSignal;
+  consume?: boolean;
+};
+
+export type EventStreamOptions = {
+  chatId?: number | string;
+  bufferSize?: number;
+  // What to do when the buffer is full: drop the oldest event (default) or fail the iterator
+  overflow?: 'dropOldest' | 'error';
+  signal?: AbortSignal;
+};
+
+export type SendKind = 'write' | 'upload';
+
+export type SendPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Token bucket budget: `perSecond` tokens are added up to `burst`. A rate of 0 means unlimited.
+ */
+export type SendRateLimit = {
+  roomPerSecond: number;
+  roomBurst: number;
+  globalPerSecond: number;
+  globalBurst: number;
+};
+
+export type SendThrottleEvent = {
+  kind: SendKind;
+  status: number;
+  // Buckets refill at 1 / 2^level of their configured rate until the level decays
+  level: number;
+  pausedMs: number;
+};
+
+export type ScheduledSendKind =
+  | 'text'
+  | 'photo'
+  | 'video'
+  | 'audio'
+  | 'file'
+  | 'contact'
+  | 'kakaoProfile'
+  | 'location'
+  | 'schedule'
+  | 'link';
+
+/**
+ * What a schedule sends. `kind` picks the send* method (default 'text'); `attachment` is its
+ * path or payload, and the remaining fields are passed as send options.
+ */
+export type ScheduledMessage = AttachmentSendOptions & {
+  kind?: ScheduledSendKind;
+  attachment?: any;
+};
+
+// What to do with occurrences that passed while the bot was offline
+export type ScheduleCatchUp = 'skip' | 'once' | 'all';
+
+export type ScheduleOptions = {
+  // Stable id; registering the same id again after a restart keeps its run history
+  id?: string;
+  chatId: number | string;
+  // One-off time: Date, epoch ms, ISO string, or 'YYYY-MM-DD HH:mm' in timeZone
+  at?: Date | number | string;
+  cron?: string;
+  timeZone?: string;
+  catchUp?: ScheduleCatchUp;
+  // Static message (persisted) or a builder called at every run (re-register it on startup)
+  message?: ScheduledMessage;
+  build?: () => ScheduledMessage | Promise<ScheduledMessage>;
+};
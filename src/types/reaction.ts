@@ -9,3 +9,18 @@ export const Reactions = {
 } as const;
 
 export type ReactionTypeValue = (typeof Reactions)[keyof typeof Reactions];
+
+export type ReactionSummary = {
+  logId: number | string;
+  // Reactor count per Reactions value
+  counts: Record<number, number>;
+  total: number;
+  reactors: Array<{
+    userId: number | string;
+    name: string;
+    reaction: ReactionTypeValue;
+  }>;
+  // Our own reaction, Reactions.CANCEL when we have not reacted
+  myReaction: ReactionTypeValue;
+  raw: any;
+};
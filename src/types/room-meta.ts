@@ -0,0 +1,11 @@
+/**
+ * Chat room meta entries written with SETMETA.
+ */
+export const RoomMetaType = {
+  Notice: 1,
+  Group: 2,
+  Title: 3,
+  Profile: 4,
+} as const;
+
+export type RoomMetaTypeValue = (typeof RoomMetaType)[keyof typeof RoomMetaType] | number;
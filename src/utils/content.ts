@@ -0,0 +1,203 @@
+import { MessageType, type MessageContent, type PhotoInfo } from '../types';
+import { normalizeIdValue, safeNumber } from './helpers';
+import {
+  normalizeFileAttachment,
+  normalizeContactAttachment,
+  normalizeProfileAttachment,
+  normalizeLinkAttachment,
+} from './attachment';
+
+function optNumber(value: any) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function optString(value: any) {
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value);
+}
+
+// Attachment times are Unix seconds; content exposes epoch ms
+function optEpochMs(value: any) {
+  const num = optNumber(value);
+  if (num === undefined) return undefined;
+  return num < 1e12 ? num * 1000 : num;
+}
+
+// Drop unset optional fields so the result prints and serializes cleanly
+function compact<T extends Record<string, any>>(value: T): T {
+  for (const key of Object.keys(value)) {
+    if (value[key] === undefined) delete value[key];
+  }
+  return value;
+}
+
+function readPhoto(att: any): PhotoInfo {
+  return compact({
+    key: optString(att.k ?? att.key),
+    url: optString(att.url),
+    thumbnailUrl: optString(att.thumbnailUrl),
+    width: optNumber(att.w ?? att.width),
+    height: optNumber(att.h ?? att.height),
+    size: optNumber(att.s ?? att.size),
+    mime: optString(att.mt ?? att.mime),
+    checksum: optString(att.cs),
+  });
+}
+
+function readMultiPhoto(att: any): PhotoInfo[] {
+  const keys: any[] = Array.isArray(att.kl) ? att.kl : [];
+  const urls: any[] = Array.isArray(att.imageUrls) ? att.imageUrls : [];
+  const count = Math.max(keys.length, urls.length);
+  const at = (list: any, i: number) => (Array.isArray(list) ? list[i] : undefined);
+  const photos: PhotoInfo[] = [];
+  for (let i = 0; i < count; i += 1) {
+    photos.push(compact({
+      key: optString(keys[i]),
+      url: optString(urls[i]),
+      thumbnailUrl: optString(at(att.thumbnailUrls, i)),
+      width: optNumber(at(att.wl, i)),
+      height: optNumber(at(att.hl, i)),
+      size: optNumber(at(att.sl, i)),
+      mime: optString(at(att.mtl, i)),
+      checksum: optString(at(att.csl, i)),
+    }));
+  }
+  return photos;
+}
+
+/**
+ * Build `msg.content` from a received message. Returns null for types without a typed shape
+ * (or when the attachment is missing); `attachmentsRaw` keeps the original data either way.
+ */
+export function parseMessageContent(type: number, text: string, attachmentsRaw: any[]): MessageContent | null {
+  if (type === MessageType.Text) {
+    return { type: MessageType.Text, text };
+  }
+
+  const att = Array.isArray(attachmentsRaw) ? attachmentsRaw.find((entry) => entry && typeof entry === 'object') : null;
+  if (!att) return null;
+
+  switch (type) {
+    case MessageType.Photo:
+      // A single photo sometimes arrives in the multi-photo shape
+      if (Array.isArray(att.kl) || Array.isArray(att.imageUrls)) {
+        const [first] = readMultiPhoto(att);
+        return { type: MessageType.Photo, ...(first || {}) };
+      }
+      return { type: MessageType.Photo, ...readPhoto(att) };
+    case MessageType.MultiPhoto:
+      return { type: MessageType.MultiPhoto, photos: readMultiPhoto(att) };
+    case MessageType.Video:
+      return compact({
+        type: MessageType.Video,
+        key: optString(att.k ?? att.key),
+        token: optString(att.tk ?? att.token),
+        tokenHigh: optString(att.tkh ?? att.tokenHigh),
+        url: optString(att.url),
+        urlHigh: optString(att.urlh ?? att.urlHigh),
+        thumbnailUrl: optString(att.thumbnailUrl),
+        width: optNumber(att.w ?? att.width),
+        height: optNumber(att.h ?? att.height),
+        duration: optNumber(att.d ?? att.duration),
+        size: optNumber(att.s ?? att.size),
+        mime: optString(att.mt ?? att.mime),
+      });
+    case MessageType.Audio:
+      return compact({
+        type: MessageType.Audio,
+        key: optString(att.k ?? att.key),
+        url: optString(att.url),
+        duration: optNumber(att.d ?? att.duration),
+        size: optNumber(att.s ?? att.size),
+      });
+    case MessageType.File: {
+      const file = normalizeFileAttachment(att);
+      return compact({
+        type: MessageType.File,
+        key: optString(file.k ?? file.key),
+        url: optString(file.url),
+        name: String(file.name || text || ''),
+        size: optNumber(file.size),
+        mime: optString(file.mime ?? file.mt),
+        expireAt: optEpochMs(file.expire),
+      });
+    }
+    case MessageType.Contact: {
+      const contact = normalizeContactAttachment(att);
+      const phones = Array.isArray(contact.phones)
+        ? contact.phones.map(String)
+        : (contact.phone ? [String(contact.phone)] : []);
+      return compact({
+        type: MessageType.Contact,
+        name: String(contact.name || text || ''),
+        phones,
+        email: optString(contact.email),
+        url: optString(contact.url),
+      });
+    }
+    case MessageType.Location: {
+      const lat = optNumber(att.lat);
+      const lng = optNumber(att.lng);
+      if (lat === undefined || lng === undefined) return null;
+      return compact({
+        type: MessageType.Location,
+        lat,
+        lng,
+        address: optString(att.a ?? att.address),
+        title: optString(att.t ?? att.title),
+        isCurrent: typeof att.c === 'boolean' ? att.c : undefined,
+        placeId: optString(att.cid ?? att.placeId),
+      });
+    }
+    case MessageType.Profile: {
+      const profile = normalizeProfileAttachment(att);
+      return compact({
+        type: MessageType.Profile,
+        userId: normalizeIdValue(profile.userId),
+        nickName: optString(profile.nickName),
+        profileImageUrl: optString(profile.profileImageUrl),
+        fullProfileImageUrl: optString(profile.fullProfileImageUrl),
+        statusMessage: optString(profile.statusMessage),
+        accessPermit: optString(profile.accessPermit),
+      });
+    }
+    case MessageType.Schedule:
+      return compact({
+        type: MessageType.Schedule,
+        title: String(att.title || text || ''),
+        eventAt: optEpochMs(att.eventAt),
+        alarmAt: optEpochMs(att.alarmAt),
+        postId: optString(att.postId),
+        scheduleId: optString(att.scheduleId),
+        subtype: optNumber(att.subtype),
+      });
+    case MessageType.Link: {
+      const link = normalizeLinkAttachment(att);
+      return compact({
+        type: MessageType.Link,
+        url: optString(link.url ?? (Array.isArray(link.urls) ? link.urls[0] : undefined)),
+        text: optString(link.text),
+        title: optString(link.title),
+        description: optString(link.description ?? link.desc),
+        imageUrl: optString(link.imageUrl ?? link.image),
+      });
+    }
+    case MessageType.Reply:
+      if (att.src_logId === undefined) return null;
+      return {
+        type: MessageType.Reply,
+        text,
+        replyTo: compact({
+          logId: normalizeIdValue(att.src_logId),
+          userId: normalizeIdValue(att.src_userId),
+          text: String(att.src_message ?? ''),
+          type: safeNumber(att.src_type, MessageType.Text),
+          linkId: att.src_linkId !== undefined ? normalizeIdValue(att.src_linkId) : undefined,
+        }),
+      };
+    default:
+      return null;
+  }
+}
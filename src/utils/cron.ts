@@ -0,0 +1,190 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in an IANA time zone.
+ * Fields accept `*`, numbers, ranges `a-b`, lists `a,b` and steps (`a-b/n`, or `/n` after a star).
+ * Day-of-week 0 and 7 are Sunday.
+ */
+export type CronSchedule = {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'weekday', min: 0, max: 7 },
+];
+
+// Far enough to reach Feb 29 from any date
+const CRON_SEARCH_DAYS = 366 * 8;
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function parseCronField(field: string, { name, min, max }: { name: string; min: number; max: number }) {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangeText, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${name} step: ${part}`);
+    }
+    let start = min;
+    let end = max;
+    if (rangeText !== '*') {
+      const [startText, endText] = rangeText.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const fields = String(expr || '').trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields: ${expr}`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+function zonedParts(ts: number, timeZone: string): ZonedParts {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(ts))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function zoneOffsetMs(ts: number, timeZone: string) {
+  const p = zonedParts(ts, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(ts / 1000) * 1000;
+}
+
+/**
+ * Epoch ms of a wall-clock time in `timeZone`, or null when that time is skipped by a DST change.
+ */
+export function zonedTimeToEpoch(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+  second = 0
+) {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  let ts = wall - zoneOffsetMs(wall, timeZone);
+  const corrected = wall - zoneOffsetMs(ts, timeZone);
+  if (corrected !== ts) ts = corrected;
+  const check = zonedParts(ts, timeZone);
+  if (check.hour !== hour || check.minute !== minute || check.day !== day) return null;
+  return ts;
+}
+
+/**
+ * First time strictly after `after` that matches the cron schedule in `timeZone`, or null if none is found.
+ */
+export function nextCronTime(cron: string | CronSchedule, after: number, timeZone: string) {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  const start = zonedParts(after, timeZone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+
+  for (let offset = 0; offset < CRON_SEARCH_DAYS; offset += 1) {
+    const date = new Date(startDay + offset * 86400000);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!schedule.months.has(month)) continue;
+
+    const dayMatch = schedule.days.has(day);
+    const weekdayMatch = schedule.weekdays.has(date.getUTCDay());
+    // Like cron: when both day fields are restricted, either one may match
+    const matches = schedule.anyDay || schedule.anyWeekday
+      ? dayMatch && weekdayMatch
+      : dayMatch || weekdayMatch;
+    if (!matches) continue;
+
+    for (const hour of schedule.hours) {
+      if (offset === 0 && hour < start.hour) continue;
+      for (const minute of schedule.minutes) {
+        const ts = zonedTimeToEpoch(year, month, day, hour, minute, timeZone);
+        if (ts !== null && ts > after) return ts;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a schedule time: Date, epoch ms, or a string. 'YYYY-MM-DD HH:mm[:ss]' without an offset is read in `timeZone`.
+ */
+export function parseScheduleTime(value: Date | number | string, timeZone: string) {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const local = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(String(value).trim());
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local.map(Number);
+    const ts = zonedTimeToEpoch(year, month, day, hour, minute, timeZone, second || 0);
+    if (ts === null) throw new Error(`Time does not exist in ${timeZone}: ${value}`);
+    return ts;
+  }
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) throw new Error(`Invalid schedule time: ${value}`);
+  return parsed;
+}
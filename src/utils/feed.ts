@@ -191,6 +191,8 @@ export const PUSH_MEMBER_ACTIONS: Record<string, MemberAction> = {
 
 export const PUSH_DELETE_ACTIONS = new Set(['DELETEMSG', 'DELMSG', 'DELM', 'DELMESSAGE', 'MSGDEL', 'SYNCDLMSG']);
 export const PUSH_HIDE_ACTIONS = new Set(['BLIND', 'BLINDMSG', 'HIDEMSG', 'HIDE', 'SYNCREWR']);
+export const PUSH_EDIT_ACTIONS = new Set(['MODIFYMSG', 'SYNCMODIFY', 'SYNCMODMSG', 'MODMSG', 'EDITMSG']);
+export const PUSH_REACTION_ACTIONS = new Set(['REACTION', 'SYNCREACT', 'MSGREACTION', 'CHGREACTION']);
 
 export const DEFAULT_FEED_TYPE_MAP: Record<number, MemberAction> = {
   4: 'join',
@@ -211,6 +213,16 @@ export function resolveHideActionFromPush(method: string): boolean {
   return PUSH_HIDE_ACTIONS.has(key);
 }
 
+export function resolveEditActionFromPush(method: string): boolean {
+  const key = String(method || '').toUpperCase();
+  return PUSH_EDIT_ACTIONS.has(key);
+}
+
+export function resolveReactionActionFromPush(method: string): boolean {
+  const key = String(method || '').toUpperCase();
+  return PUSH_REACTION_ACTIONS.has(key);
+}
+
 export function normalizeMemberAction(value: any): MemberAction | null {
   if (!value) return null;
   const text = String(value).toLowerCase();
@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { Long } from 'bson';
 import * as LosslessJSON from 'lossless-json';
-import { type AuthFile } from '../types';
+import { type AuthFile, type AuthPayload } from '../types';
 
 export function loadAuthFile(authPath: string): AuthFile {
   if (!fs.existsSync(authPath)) {
@@ -16,6 +16,10 @@ export function loadAuthFile(authPath: string): AuthFile {
   }
 }
 
+export function saveAuthFile(authPath: string, payload: AuthPayload) {
+  fs.writeFileSync(authPath, JSON.stringify(payload, null, 2), 'utf-8');
+}
+
 export function sleepMs(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -6,3 +6,5 @@ export * from './mention';
 export * from './attachment';
 export * from './feed';
 export * from './client-helpers';
+export * from './cron';
+export * from './content';
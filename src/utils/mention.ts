@@ -1,4 +1,4 @@
-import { type MentionInput, type SpoilerInput } from '../types';
+import { type MentionInput, type SpoilerInput, type MessageMention } from '../types';
 import { safeNumber, normalizeIdValue } from './helpers';
 
 export const MENTION_MARK_START = '\u0002';
@@ -243,3 +243,103 @@ export function extractMentions(raw: any): any[] | undefined {
   }
   return undefined;
 }
+
+// Place each mention ordinal on an '@' in order, keeping ranges from overlapping and inside the text
+function placeMentionOrdinals(text: string, slots: Array<{ at: number; len: number }>, candidates: number[]) {
+  const placed = new Map<number, number>();
+  let cursor = 0;
+  let ci = 0;
+  for (const slot of slots) {
+    while (ci < candidates.length && (candidates[ci] < cursor || candidates[ci] + 1 + slot.len > text.length)) {
+      ci += 1;
+    }
+    if (ci >= candidates.length) break;
+    placed.set(slot.at, candidates[ci]);
+    cursor = candidates[ci] + 1 + slot.len;
+    ci += 1;
+  }
+  return placed;
+}
+
+/**
+ * Map received mentions ({ user_id, at, len }) to text ranges.
+ * `at` numbers the mention tokens (1-based) like the send side does, not every '@' in the text,
+ * so an '@' inside a word is skipped: in 'mail a@b.com @bot help', `at: [1]` is '@bot'.
+ */
+export function resolveMessageMentions(text: string, raw: any): MessageMention[] {
+  const entries = extractMentions(raw) || [];
+  if (!text || entries.length === 0) return [];
+
+  const slotLens = new Map<number, number>();
+  for (const entry of entries) {
+    const len = safeNumber(entry?.len, 0);
+    for (const at of Array.isArray(entry?.at) ? entry.at : [entry?.at]) {
+      const ordinal = safeNumber(at, 0);
+      if (ordinal > 0 && !slotLens.has(ordinal)) slotLens.set(ordinal, len);
+    }
+  }
+  const slots = [...slotLens.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([at, len]) => ({ at, len }));
+  const allAts = findAllIndices(text, '@');
+  // Mentions start a word; fall back to every '@' when that cannot place them all (e.g. '안녕@bot')
+  const wordAts = allAts.filter((idx) => idx === 0 || !/[\p{L}\p{N}]/u.test(text[idx - 1]));
+  let positions = placeMentionOrdinals(text, slots, wordAts);
+  if (positions.size < slots.length) {
+    positions = placeMentionOrdinals(text, slots, allAts);
+  }
+
+  const result: MessageMention[] = [];
+  for (const entry of entries) {
+    const userId = normalizeIdValue(entry?.user_id ?? entry?.userId ?? 0);
+    if (!userId) continue;
+    const len = safeNumber(entry.len, 0);
+    const atList = Array.isArray(entry.at) ? entry.at : [entry.at];
+    const ranges: MessageMention['ranges'] = [];
+    let name = '';
+    for (const at of atList) {
+      const idx = positions.get(safeNumber(at, 0));
+      if (idx === undefined) continue;
+      const end = Math.min(text.length, idx + 1 + len);
+      ranges.push({ start: idx, end });
+      if (!name) name = text.slice(idx + 1, end);
+    }
+    result.push({ userId, name, ranges });
+  }
+  return result;
+}
+
+/**
+ * Map received spoilers ({ loc, len }) to text ranges.
+ */
+export function resolveMessageSpoilers(text: string, raw: any): Array<{ start: number; end: number }> {
+  if (!text || !Array.isArray(raw)) return [];
+  const entries = raw.find((entry) => entry && Array.isArray(entry.spoilers))?.spoilers || [];
+  const result: Array<{ start: number; end: number }> = [];
+  for (const entry of entries) {
+    const start = safeNumber(entry?.loc, -1);
+    const len = safeNumber(entry?.len, 0);
+    if (start < 0 || start >= text.length || len <= 0) continue;
+    result.push({ start, end: Math.min(text.length, start + len) });
+  }
+  return result.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The message text with every mention removed, e.g. '@bot help me' -> 'help me'.
+ * The space a mention leaves behind between two words is dropped as well.
+ */
+export function stripMentions(msg: { text: string; mentions?: MessageMention[] }) {
+  const ranges = (msg.mentions || [])
+    .flatMap((mention) => mention.ranges)
+    .sort((a, b) => b.start - a.start);
+  let out = msg.text || '';
+  for (const range of ranges) {
+    let end = range.end;
+    if (/\s/.test(out[end] || '') && (range.start === 0 || /\s/.test(out[range.start - 1]))) {
+      end += 1;
+    }
+    out = out.slice(0, range.start) + out.slice(end);
+  }
+  return out.trim();
+}
@@ -1,5 +1,6 @@
 import { toLong, safeNumber, isBlankText, truncateChatLogMessage, stringifyLossless, normalizeIdValue } from './helpers';
 import type { CarriageClient } from '../net/carriage-client';
+import { Reactions, type ReactionSummary, type ReactionTypeValue, type OpenLinkInfo } from '../types';
 
 export function parseAttachments(raw: any): any[] {
   if (raw === undefined || raw === null) return [];
@@ -343,6 +344,76 @@ export function assertBubbleOk(res: any, label: string) {
   }
 }
 
+/**
+ * Canonical `https://open.kakao.com/o/<code>` form of an open chat link, or null when `input` is not one.
+ */
+export function normalizeOpenLinkUrl(input: string): string | null {
+  const match = /^(?:https?:\/\/)?open\.kakao\.com\/o\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/.exec(String(input || '').trim());
+  return match ? `https://open.kakao.com/o/${match[1]}` : null;
+}
+
+export function parseOpenLinkInfo(ol: any, fallbackUrl = ''): OpenLinkInfo | null {
+  if (!ol || typeof ol !== 'object') return null;
+  const linkId = normalizeIdValue(ol.li ?? ol.linkId ?? 0);
+  if (!linkId) return null;
+  const info: OpenLinkInfo = {
+    linkId,
+    url: String(ol.lu ?? ol.linkURL ?? fallbackUrl),
+    name: String(ol.ln ?? ol.linkName ?? '').trim(),
+    raw: ol,
+  };
+  const description = ol.desc ?? ol.description;
+  if (typeof description === 'string' && description) info.description = description;
+  const imageUrl = ol.liu ?? ol.linkImageURL;
+  if (typeof imageUrl === 'string' && imageUrl) info.imageUrl = imageUrl;
+  const memberLimit = safeNumber(ol.ml ?? ol.maxUser ?? 0, 0);
+  if (memberLimit > 0) info.memberLimit = memberLimit;
+  const openToken = ol.otk ?? ol.tk;
+  if (openToken !== undefined && openToken !== null) info.openToken = normalizeIdValue(openToken);
+  return info;
+}
+
+/**
+ * Normalize a bubble reaction listing. Counts fall back to tallying the reactor list
+ * when the response only carries one of the two; reactor names are left for the caller.
+ */
+export function parseReactionSummary(body: any, logId: number | string, myUserId?: number | string): ReactionSummary {
+  const data = body && typeof body === 'object' ? (body.result ?? body.data ?? body) : {};
+  const countList: any[] = data.reactions ?? data.reactionInfos ?? data.counts ?? [];
+  const userList: any[] = data.reactors ?? data.users ?? data.reactionUsers ?? data.members ?? [];
+
+  const reactors: ReactionSummary['reactors'] = [];
+  for (const entry of Array.isArray(userList) ? userList : []) {
+    if (!entry || typeof entry !== 'object') continue;
+    const userId = normalizeIdValue(entry.userId ?? entry.uid ?? entry.id ?? 0);
+    const reaction = safeNumber(entry.type ?? entry.reactionType ?? entry.reaction ?? 0, 0) as ReactionTypeValue;
+    if (!userId || reaction === Reactions.CANCEL) continue;
+    reactors.push({ userId, name: String(entry.nickName ?? entry.nickname ?? entry.name ?? ''), reaction });
+  }
+
+  const counts: Record<number, number> = {};
+  for (const entry of Array.isArray(countList) ? countList : []) {
+    if (!entry || typeof entry !== 'object') continue;
+    const reaction = safeNumber(entry.type ?? entry.reactionType ?? entry.reaction ?? 0, 0);
+    const count = safeNumber(entry.count ?? entry.cnt ?? entry.c ?? 0, 0);
+    if (reaction !== Reactions.CANCEL && count > 0) counts[reaction] = count;
+  }
+  if (Object.keys(counts).length === 0) {
+    for (const reactor of reactors) {
+      counts[reactor.reaction] = (counts[reactor.reaction] || 0) + 1;
+    }
+  }
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  let myReaction = safeNumber(data.myReaction ?? data.myType ?? Reactions.CANCEL, Reactions.CANCEL) as ReactionTypeValue;
+  if (myReaction === Reactions.CANCEL && myUserId !== undefined) {
+    const mine = reactors.find((reactor) => String(reactor.userId) === String(myUserId));
+    if (mine) myReaction = mine.reaction;
+  }
+
+  return { logId, counts, total, reactors, myReaction, raw: body };
+}
+
 export function waitForPushMethod(client: CarriageClient, method: string, timeoutMs: number) {
   let settled = false;
   let timer: NodeJS.Timeout | null = null;
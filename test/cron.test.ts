@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { nextCronTime, parseScheduleTime } from '../src/utils/cron';
+
+const iso = (ts: number | null) => (ts === null ? null : new Date(ts).toISOString());
+
+test('next run is evaluated in the schedule time zone', () => {
+  // 09:30 KST: today's 09:00 has passed
+  assert.equal(iso(nextCronTime('0 9 * * *', Date.UTC(2026, 9, 19, 0, 30), 'Asia/Seoul')), '2026-10-20T00:00:00.000Z');
+  // Friday evening: the next weekday run is Monday
+  assert.equal(iso(nextCronTime('30 18 * * 1-5', Date.UTC(2026, 9, 23, 10), 'Asia/Seoul')), '2026-10-26T09:30:00.000Z');
+});
+
+test('next run is strictly after the given time', () => {
+  assert.equal(iso(nextCronTime('*/15 * * * *', Date.UTC(2026, 9, 19, 0, 30), 'UTC')), '2026-10-19T00:45:00.000Z');
+});
+
+test('skips wall-clock times that a DST change removes', () => {
+  // 2027-03-14 02:30 does not exist in New York
+  assert.equal(iso(nextCronTime('30 2 * * *', Date.UTC(2027, 2, 13, 12), 'America/New_York')), '2027-03-15T06:30:00.000Z');
+});
+
+test('finds a leap day years ahead', () => {
+  assert.equal(iso(nextCronTime('0 0 29 2 *', Date.UTC(2026, 0, 1), 'UTC')), '2028-02-29T00:00:00.000Z');
+});
+
+test('parses local schedule times in the given zone', () => {
+  assert.equal(iso(parseScheduleTime('2026-10-20 09:00', 'Asia/Seoul')), '2026-10-20T00:00:00.000Z');
+  assert.throws(() => parseScheduleTime('2027-03-14 02:30', 'America/New_York'), /does not exist/);
+});
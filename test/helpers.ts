@@ -0,0 +1,36 @@
+import { KakaoForgeClient, MockLocoServer, type KakaoForgeConfig, type MockChat } from '../src';
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Poll until `check` returns a truthy value, or fail after `timeoutMs`.
+ */
+export async function waitFor<T>(check: () => T, timeoutMs = 3000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('waitFor timed out');
+    await sleep(10);
+  }
+}
+
+export async function startServer(chats: MockChat[]) {
+  const server = new MockLocoServer({ chats });
+  await server.start();
+  return server;
+}
+
+/**
+ * Connected client without auto reconnect; fast send limits so tests do not wait on the scheduler.
+ */
+export async function connectClient(server: MockLocoServer, overrides: KakaoForgeConfig = {}) {
+  const client = new KakaoForgeClient(server.clientConfig({
+    autoConnect: false,
+    autoReconnect: false,
+    sendIntervalMs: 0,
+    ...overrides,
+  }));
+  await client.connect();
+  return client;
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { resolveMessageMentions, stripMentions } from '../src/utils/mention';
+
+const raw = (mentions: Array<{ user_id: number; at: number[]; len: number }>) => [{ mentions }];
+
+test('places each ordinal on the matching mention token', () => {
+  const text = '@alice hi @bob and @alice';
+  const mentions = resolveMessageMentions(text, raw([
+    { user_id: 1, at: [1, 3], len: 5 },
+    { user_id: 2, at: [2], len: 3 },
+  ]));
+  assert.deepEqual(mentions.map((m) => [m.userId, m.ranges]), [
+    [1, [{ start: 0, end: 6 }, { start: 19, end: 25 }]],
+    [2, [{ start: 10, end: 14 }]],
+  ]);
+  assert.equal(stripMentions({ text, mentions }), 'hi and');
+});
+
+test('skips a literal @ inside a word before the mention', () => {
+  const text = 'mail a@b.com @bot help';
+  const mentions = resolveMessageMentions(text, raw([{ user_id: 1, at: [1], len: 3 }]));
+  assert.deepEqual(mentions[0].ranges, [{ start: 13, end: 17 }]);
+  assert.equal(stripMentions({ text, mentions }), 'mail a@b.com help');
+});
+
+test('finds a mention glued to non-latin text', () => {
+  const text = '안녕@bot 하세요';
+  const mentions = resolveMessageMentions(text, raw([{ user_id: 1, at: [1], len: 3 }]));
+  assert.deepEqual(mentions[0].ranges, [{ start: 2, end: 6 }]);
+});
@@ -0,0 +1,84 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { type MockLocoServer } from '../src';
+import { startServer, connectClient, waitFor, sleep } from './helpers';
+
+let server: MockLocoServer;
+
+before(async () => {
+  server = await startServer([
+    { chatId: 500, title: 'room', members: [{ userId: 2000, nickName: 'alice' }] },
+    { chatId: 600, title: 'quiet', members: [{ userId: 2000, nickName: 'alice' }] },
+  ]);
+});
+
+after(async () => {
+  await server.stop();
+});
+
+test('messages missed while disconnected are recovered as backfilled', async () => {
+  const client = await connectClient(server, { autoReconnect: true, reconnectMinDelayMs: 50 });
+  const seen: string[] = [];
+  client.onMessage((msg) => {
+    seen.push(`${msg.message.text}${msg.backfilled ? '(bf)' : ''}`);
+  });
+  try {
+    server.pushMessage(500, { authorId: 2000, text: 'm1' });
+    await waitFor(() => seen.length === 1);
+
+    const relogin = server.waitForRequest('LOGINLIST');
+    server.dropConnections();
+    await sleep(20);
+    server.pushMessage(500, { authorId: 2000, text: 'm2' });
+    server.pushMessage(500, { authorId: 2000, text: 'm3' });
+    await relogin;
+    await waitFor(() => seen.length === 3);
+
+    server.pushMessage(500, { authorId: 2000, text: 'm4' });
+    await waitFor(() => seen.length === 4);
+    assert.deepEqual(seen, ['m1', 'm2(bf)', 'm3(bf)', 'm4']);
+  } finally {
+    client.disconnect();
+  }
+});
+
+test('a message delivered twice is dispatched once', async () => {
+  const client = await connectClient(server);
+  const seen: string[] = [];
+  client.onMessage((msg) => {
+    seen.push(msg.message.text);
+  });
+  try {
+    server.pushMessage(600, { authorId: 2000, text: 'a' });
+    server.pushMessage(600, { authorId: 2000, text: 'b' });
+    await waitFor(() => seen.length === 2);
+
+    // SYNCMSG replays both messages the push already delivered
+    await client.syncMessages(600, { since: 1 });
+    await sleep(100);
+    assert.deepEqual(seen, ['a', 'b']);
+    assert.equal(client.duplicateMessageCount, 2);
+  } finally {
+    client.disconnect();
+  }
+});
+
+test('the dedupe window forgets entries older than its TTL', async () => {
+  const client = await connectClient(server, { messageDedupeTtlMs: 50 });
+  const seen: string[] = [];
+  client.onMessage((msg) => {
+    seen.push(msg.message.text);
+  });
+  try {
+    server.pushMessage(600, { authorId: 2000, text: 'c' });
+    await waitFor(() => seen.length === 1);
+    await sleep(100);
+
+    const logs = server.chatLogs(600);
+    await client.syncMessages(600, { since: Number(logs[logs.length - 2].logId) });
+    await waitFor(() => seen.length === 2);
+    assert.deepEqual(seen, ['c', 'c']);
+  } finally {
+    client.disconnect();
+  }
+});
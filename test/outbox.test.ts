@@ -0,0 +1,89 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LocoStatusError, type MockLocoServer, type OutboxSentEvent } from '../src';
+import { startServer, connectClient, waitFor } from './helpers';
+
+let server: MockLocoServer;
+
+before(async () => {
+  server = await startServer([{ chatId: 500, title: 'room', members: [{ userId: 2000, nickName: 'alice' }] }]);
+});
+
+after(async () => {
+  await server.stop();
+});
+
+const writes = () => server.requests.filter((r) => r.method === 'WRITE').length;
+
+test('a rate-limited WRITE is retried until it goes through', async () => {
+  const client = await connectClient(server, { outbox: true, outboxRetryBaseMs: 20, sendThrottleBackoffMs: 10 });
+  const sent: OutboxSentEvent[] = [];
+  client.on('outboxSent', (event) => sent.push(event));
+  try {
+    let calls = 0;
+    server.handle('WRITE', (body) => (++calls <= 2 ? { status: -303 } : server._handleWrite(body)));
+    const before = writes();
+    const res = await client.chat.sendText(500, 'spammy');
+    assert.ok(res.body.logId);
+    assert.equal(writes() - before, 3);
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].item.attempts, 3);
+  } finally {
+    server.unhandle('WRITE');
+    client.disconnect();
+  }
+});
+
+test('a non-retryable status fails the send right away', async () => {
+  const client = await connectClient(server, { outbox: true, outboxRetryBaseMs: 20 });
+  try {
+    server.handle('WRITE', () => ({ status: -203 }));
+    const before = writes();
+    await assert.rejects(
+      client.chat.sendText(500, 'bad'),
+      (err: any) => err instanceof LocoStatusError && err.code === 'INVALID_PARAMETER'
+    );
+    assert.equal(writes() - before, 1);
+    assert.equal(client.outbox.list().length, 0);
+  } finally {
+    server.unhandle('WRITE');
+    client.disconnect();
+  }
+});
+
+test('a send whose reply was lost settles from the echo without a second WRITE', async () => {
+  const client = await connectClient(server, {
+    outbox: true,
+    outboxRetryBaseMs: 20,
+    autoReconnect: true,
+    reconnectMinDelayMs: 50,
+  });
+  try {
+    // Gap fill starts from the last message the client saw in the room
+    let received = false;
+    client.onMessage(() => {
+      received = true;
+    });
+    server.pushMessage(500, { authorId: 2000, text: 'hello' });
+    await waitFor(() => received);
+
+    // Store the message but drop the connection before replying
+    server.handle('WRITE', (body) => {
+      server._handleWrite(body);
+      setTimeout(() => server.dropConnections(), 10);
+      return null;
+    });
+    const seen = server.waitForRequest('WRITE');
+    const before = writes();
+    const pending = client.chat.sendText(500, 'lost reply');
+    await seen;
+    server.unhandle('WRITE');
+    const res = await pending;
+    assert.ok(res.body.logId);
+    assert.equal(writes() - before, 1);
+    assert.equal(server.chatLogs(500).filter((log) => log.message === 'lost reply').length, 1);
+  } finally {
+    server.unhandle('WRITE');
+    client.disconnect();
+  }
+});
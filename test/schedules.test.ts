@@ -0,0 +1,44 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { type MockLocoServer, type ScheduleRunEvent } from '../src';
+import { startServer, connectClient, waitFor } from './helpers';
+
+let server: MockLocoServer;
+
+before(async () => {
+  server = await startServer([{ chatId: 500, title: 'room', members: [] }]);
+});
+
+after(async () => {
+  await server.stop();
+});
+
+test('a one-off schedule sends its message when due', async () => {
+  const client = await connectClient(server);
+  const runs: ScheduleRunEvent[] = [];
+  client.on('scheduleRun', (event) => runs.push(event));
+  try {
+    await client.schedule({ id: 'soon', chatId: 500, at: Date.now() + 100, message: { text: 'hello at' } });
+    await waitFor(() => runs.length === 1);
+    assert.equal(runs[0].schedule.id, 'soon');
+    assert.equal(runs[0].missed, false);
+    assert.ok(server.chatLogs(500).some((log) => log.message === 'hello at'));
+    assert.deepEqual(client.schedules.list(), []);
+  } finally {
+    client.disconnect();
+  }
+});
+
+test('a cron schedule reports its next run in the schedule time zone', async () => {
+  const client = await connectClient(server);
+  try {
+    const record = await client.schedule({ id: 'daily', chatId: 500, cron: '0 9 * * *', timeZone: 'Asia/Seoul', message: { text: 'daily' } });
+    const next = new Date(record.nextRunAt);
+    assert.equal(next.getUTCHours(), 0);
+    assert.equal(next.getUTCMinutes(), 0);
+    assert.ok(record.nextRunAt > Date.now());
+    assert.equal(await client.cancelSchedule('daily'), true);
+  } finally {
+    client.disconnect();
+  }
+});
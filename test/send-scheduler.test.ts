@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { KakaoForgeClient, LocoStatusError, SendScheduler, type SendRateLimit } from '../src';
+
+const UNLIMITED: SendRateLimit = { roomPerSecond: 0, roomBurst: 1, globalPerSecond: 0, globalBurst: 1 };
+
+function createScheduler(write: Partial<SendRateLimit>, throttleBackoffMs = 50) {
+  return new SendScheduler({
+    write: { ...UNLIMITED, ...write },
+    upload: UNLIMITED,
+    throttleBackoffMs,
+    throttleRecoverMs: 1000,
+  });
+}
+
+test('a busy room does not hold back other rooms', async () => {
+  const scheduler = createScheduler({ roomPerSecond: 5, roomBurst: 1 });
+  const done: string[] = [];
+  const send = (chatId: number, label: string) =>
+    scheduler.schedule(async () => label, { chatId }).then(() => done.push(label));
+  await Promise.all([send(1, 'a1'), send(1, 'a2'), send(2, 'b1')]);
+  assert.deepEqual(done, ['a1', 'b1', 'a2']);
+});
+
+test('high priority jobs jump the queue of their room', async () => {
+  const scheduler = createScheduler({ roomPerSecond: 20, roomBurst: 1 });
+  const done: string[] = [];
+  const send = (label: string, priority: 'high' | 'normal') =>
+    scheduler.schedule(async () => label, { chatId: 1, priority }).then(() => done.push(label));
+  await Promise.all([send('n1', 'normal'), send('n2', 'normal'), send('h1', 'high')]);
+  assert.deepEqual(done, ['n1', 'h1', 'n2']);
+});
+
+test('a rate-limit status pauses the kind and halves its rate', async () => {
+  const scheduler = createScheduler({}, 100);
+  const throttled = scheduler.schedule(async () => {
+    throw new LocoStatusError('WRITE', -303);
+  }, { chatId: 1 });
+  await assert.rejects(throttled, (err: any) => err.code === 'SPAM_LIMIT');
+  assert.equal(scheduler.slowdown('write'), 1);
+  assert.equal(scheduler.slowdown('upload'), 0);
+
+  const started = Date.now();
+  await scheduler.schedule(async () => 'ok', { chatId: 2 });
+  assert.ok(Date.now() - started >= 80, 'next write waits for the pause');
+});
+
+test('other status errors do not slow sending down', async () => {
+  const scheduler = createScheduler({});
+  await assert.rejects(scheduler.schedule(async () => {
+    throw new LocoStatusError('WRITE', -203);
+  }));
+  assert.equal(scheduler.slowdown('write'), 0);
+});
+
+test('sendIntervalMs keeps its meaning: one global write per interval, 0 = no limit', () => {
+  const limited = new KakaoForgeClient({ sendIntervalMs: 500 });
+  assert.equal(limited.sendScheduler.limits.write.globalPerSecond, 2);
+  assert.equal(limited.sendScheduler.limits.write.globalBurst, 1);
+
+  const unlimited = new KakaoForgeClient({ sendIntervalMs: 0 });
+  assert.equal(unlimited.sendScheduler.limits.write.globalPerSecond, 0);
+  assert.equal(unlimited.sendScheduler.limits.write.roomPerSecond, 0);
+});